@@ -0,0 +1,10 @@
+import { jsonHandler } from "@/lib/api";
+import { moments } from "@/lib/die";
+import { evaluateModel, parseModelSpec } from "@/lib/model_request";
+
+// Theoretical face probabilities of a die model
+export const POST = jsonHandler((body) => {
+  const spec = parseModelSpec(body);
+  const model = evaluateModel(spec);
+  return { ...model, moments: moments(model.probs, model.values) };
+});
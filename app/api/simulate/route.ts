@@ -0,0 +1,31 @@
+import { jsonHandler } from "@/lib/api";
+import { moments, simulateRolls } from "@/lib/die";
+import { defaultSampleStep, evaluateModel, parseSimulationSpec } from "@/lib/model_request";
+import { createRandom, randomSeed } from "@/lib/random";
+
+// Roll a die model n times; the seed used is returned so the run can be replayed
+export const POST = jsonHandler((body) => {
+  const spec = parseSimulationSpec(body);
+  const model = evaluateModel(spec);
+  const seed = spec.seed.trim() === "" ? String(randomSeed()) : spec.seed;
+
+  const result = simulateRolls(
+    model.weights,
+    spec.n,
+    spec.sampleStep ?? defaultSampleStep(spec.n),
+    createRandom(seed),
+    spec.sampler,
+    model.values
+  );
+
+  return {
+    ...model,
+    n: spec.n,
+    seed,
+    ...result,
+    moments: {
+      theoretical: moments(result.probs, model.values),
+      empirical: moments(result.relFreq, model.values),
+    },
+  };
+});
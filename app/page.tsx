@@ -1,34 +1,107 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-import { Bar, BarChart, CartesianGrid, XAxis, YAxis, LabelList, Line, LineChart } from "recharts";
-import { applyBubblePhysics, clampBubbleToDie, simulateRolls, weightsFromDimensions } from "@/lib/die";
-import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Fragment, useEffect, useEffectEvent, useMemo, useState } from "react";
+import {
+  applyInclusionPhysics,
+  clampBubbleToDie,
+  moments,
+  normalizeWeights,
+  projectToCuboid,
+  SAMPLER_LABELS,
+  valueDistribution,
+  weightsFromDimensions,
+  type CuboidProjection,
+  type SamplerKind,
+  type SimulationResult,
+} from "@/lib/die";
+import { downloadFile } from "@/lib/download";
+import { runExportToCsv, runExportToJson, type RunExport } from "@/lib/export";
+import { defaultSampleStep } from "@/lib/model_request";
+import { randomSeed } from "@/lib/random";
+import { scenarioFromQuery, scenarioToQuery } from "@/lib/scenario";
+import { runningMeanOf, type RollLog } from "@/lib/roll_log";
+import type { TossConfig } from "@/lib/toss";
+import { confidenceIntervals, INTERVAL_LABELS, type Interval, type IntervalMethod } from "@/lib/stats";
+import { CdfCard, MeanConvergenceCard, ProbabilitiesCard } from "@/components/chart_cards";
 import { WeightedDieCanvas } from "@/components/die_model";
-import { BubbleConfig, DEFAULT_BUBBLE } from "@/types/bubble";
-
-type MODE = "weights" | "dimensions";
+import {
+  DIE_TYPE_LABELS,
+  DIE_TYPES,
+  faceCountOf,
+  getDieGeometry,
+  type DieDims,
+  type DieType,
+} from "@/lib/geometry";
+import { CalibrationPanel } from "@/components/calibration_panel";
+import { ChiSquaredCard } from "@/components/chi_squared_card";
+import { ComparisonPanel } from "@/components/comparison_panel";
+import { DicePoolPanel } from "@/components/dice_pool_panel";
+import { HeatmapPanel } from "@/components/heatmap_panel";
+import { ImportPanel } from "@/components/import_panel";
+import { InclusionsPanel } from "@/components/inclusions_panel";
+import { InverseDesignPanel } from "@/components/inverse_design_panel";
+import { MassPropertiesPanel } from "@/components/mass_properties_panel";
+import { PosteriorPanel } from "@/components/posterior_panel";
+import { ScenarioPanel } from "@/components/scenario_panel";
+import { SweepPanel } from "@/components/sweep_panel";
+import { TossPanel } from "@/components/toss_panel";
+import { halfExtents } from "@/lib/heatmap";
+import { bubbleAsInclusion, clampInclusionToDie, validateInclusions } from "@/lib/inclusions";
+import { BubbleConfig, DEFAULT_BUBBLE, DEFAULT_INCLUSION, type Inclusion, type Vec3 } from "@/types/bubble";
+import { defaultFaces, type FaceSpec } from "@/types/face";
+import { SCENARIO_VERSION, type Scenario, type ScenarioMode } from "@/types/scenario";
+import type { SimulationProgress } from "@/types/simulation";
+import { useSimulationWorker } from "@/hooks/use_simulation_worker";
+
+type MODE = ScenarioMode;
 
 const INITIAL_WEIGHTS = [1, 1, 1, 1, 1, 1];
 const INITIAL_DIMENSIONS = { lx: 1, ly: 1, lz: 1 };
-const DIMENSIONS_EXPONENT = 1;
+const INITIAL_TARGET = Array(6).fill(Number((1 / 6).toFixed(4)));
+const DEFAULT_EXPONENT = 1;
+const IMPORT_SAMPLE_STEP = 10;
+
+// Apply the inclusions to the base weights, falling back to the base weights if the die has no mass left
+function weightsWithInclusions(
+  baseWeights: number[],
+  inclusions: Inclusion[],
+  dims: DieDims,
+  dieType: DieType,
+  k: number | null
+): { weights: number[]; error: string | null } {
+  try {
+    return { weights: applyInclusionPhysics(baseWeights, inclusions, k ?? undefined, dims, dieType), error: null };
+  } catch (e) {
+    return { weights: baseWeights, error: e instanceof Error ? e.message : String(e) };
+  }
+}
 
-type DieDims = { lx: number; ly: number; lz: number };
+// Step for a sample grown by n rolls: a multiple of its current step, so its points can be thinned
+function continuedSampleStep(previous: SimulationResult, n: number): number {
+  const rolled = previous.counts.reduce((acc, c) => acc + c, 0);
+  return previous.sampleStep * Math.ceil(defaultSampleStep(rolled + n) / previous.sampleStep);
+}
 
 export default function HomePage() {
   // -----------------------------
   // Core state
   // -----------------------------
   const [mode, setMode] = useState<MODE>("weights");
+  const [dieType, setDieType] = useState<DieType>("d6");
   const [weights, setWeights] = useState<number[]>(INITIAL_WEIGHTS);
   const [fixedWeights, setFixedWeights] = useState<number[]>(INITIAL_WEIGHTS);
+  const [faces, setFaces] = useState<FaceSpec[]>(() => defaultFaces(INITIAL_WEIGHTS.length));
+  const [fixedFaces, setFixedFaces] = useState<FaceSpec[]>(faces);
   const [dimensions, setDimensions] =
     useState<typeof INITIAL_DIMENSIONS>(INITIAL_DIMENSIONS);
-  const [bubble, setBubble] = useState<BubbleConfig>(DEFAULT_BUBBLE);
+  const [target, setTarget] = useState<number[]>(INITIAL_TARGET);
+  const [bubbleInput, setBubble] = useState<BubbleConfig>(DEFAULT_BUBBLE);
+  const [inclusionInputs, setInclusions] = useState<Inclusion[]>([]);
+  const [exponent, setExponent] = useState(DEFAULT_EXPONENT);
+  const [bubbleK, setBubbleK] = useState<number | null>(null); // null uses the size-based default
   const [nRolls, setNRolls] = useState(1000);
+  const [seed, setSeed] = useState("");
+  const [sampler, setSampler] = useState<SamplerKind>("alias");
 
   // -----------------------------
   // Simulation outputs
@@ -37,80 +110,224 @@ export default function HomePage() {
   const [relFreq, setRelFreq] = useState<number[] | null>(null);
   const [probs, setProbs] = useState<number[] | null>(null);
   const [runningMean, setRunningMean] = useState<number[] | null>(null);
+  const [sampleStep, setSampleStep] = useState(10);
+  const [imported, setImported] = useState<{ name: string; log: RollLog } | null>(null);
+  const [usedSeed, setUsedSeed] = useState<string | null>(null);
+  const [usedSampler, setUsedSampler] = useState<SamplerKind | null>(null);
+  const [runConfig, setRunConfig] = useState<Scenario | null>(null); // Configuration of the simulated sample
+  const [accumulate, setAccumulate] = useState(false);
+  const [batches, setBatches] = useState(0); // Simulation runs in the current sample
+  const [unsettledTosses, setUnsettledTosses] = useState<number | null>(null);
+  const [ciMethod, setCiMethod] = useState<IntervalMethod>("wilson");
+  const [ciLevel, setCiLevel] = useState(0.95);
+
+  // -----------------------------
+  // Scenario sharing
+  // -----------------------------
+  const [shareSeed, setShareSeed] = useState(true);
+  const [shareResults, setShareResults] = useState(false);
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const [urlLoaded, setUrlLoaded] = useState(false);
 
   // -----------------------------
   // UI state
   // -----------------------------
   const [error, setError] = useState<string | null>(null);
-  const [isSimulating, setIsSimulating] = useState(false);
+  const simulation = useSimulationWorker();
 
   // -----------------------------
   // Derived values
   // -----------------------------
-  const dieDims: DieDims = mode === "dimensions" ? dimensions : INITIAL_DIMENSIONS;
+  // Target mode: the cuboid whose face areas come closest to the target probabilities
+  const projection = useMemo(() => {
+    if (mode !== "target" || dieType !== "d6") return null;
+    try {
+      return projectToCuboid(target, exponent, faces.map((f) => f.label));
+    } catch {
+      return null;
+    }
+  }, [mode, dieType, target, faces, exponent]);
+
+  const dieDims: DieDims =
+    mode === "dimensions" ? dimensions : projection ? projection.dims : INITIAL_DIMENSIONS;
 
+  const geometry = useMemo(
+    () => getDieGeometry(dieType, { lx: dieDims.lx, ly: dieDims.ly, lz: dieDims.lz }),
+    [dieType, dieDims.lx, dieDims.ly, dieDims.lz]
+  );
+
+  // Half-extents of the die's bounding box
   const halfDims = useMemo(
-    () => ({ x: dieDims.lx / 2, y: dieDims.ly / 2, z: dieDims.lz / 2 }),
-    [dieDims.lx, dieDims.ly, dieDims.lz]
+    () => halfExtents({ lx: dieDims.lx, ly: dieDims.ly, lz: dieDims.lz }, dieType),
+    [dieType, dieDims.lx, dieDims.ly, dieDims.lz]
   );
 
-  const baseWeights =
-    mode === "weights"
-      ? weights
-      : weightsFromDimensions(dimensions, DIMENSIONS_EXPONENT);
+  // Memoised so panels that recompute on new base weights only do so when they change
+  const baseWeights = useMemo(
+    () => (mode === "weights" ? weights : weightsFromDimensions(dieDims, exponent, dieType)),
+    [mode, weights, dieDims, exponent, dieType]
+  );
 
-  useEffect(() => {
-    setBubble((prev) =>
-      clampBubbleToDie(prev, { lx: dieDims.lx, ly: dieDims.ly, lz: dieDims.lz })
-    );
-  }, [dieDims.lx, dieDims.ly, dieDims.lz]);
+  // Keep the bubble and inclusions inside the current die, however its shape last changed
+  const bubble = useMemo(
+    () => clampBubbleToDie(bubbleInput, { lx: dieDims.lx, ly: dieDims.ly, lz: dieDims.lz }, dieType),
+    [bubbleInput, dieType, dieDims.lx, dieDims.ly, dieDims.lz]
+  );
 
-  const currentWeights = applyBubblePhysics(baseWeights, bubble, undefined, dieDims);
+  const inclusions = useMemo(() => {
+    const dims = { lx: dieDims.lx, ly: dieDims.ly, lz: dieDims.lz };
+    return inclusionInputs.map((inc) => clampInclusionToDie(inc, dims, dieType));
+  }, [inclusionInputs, dieType, dieDims.lx, dieDims.ly, dieDims.lz]);
+
+  // The air bubble is the first inclusion
+  const allInclusions = useMemo(
+    () => [bubbleAsInclusion(bubble), ...inclusions],
+    [bubble, inclusions]
+  );
+
+  const inclusionIssues = useMemo(
+    () =>
+      validateInclusions(allInclusions, dieDims, dieType, [
+        "Air bubble",
+        ...inclusions.map((_, i) => `Inclusion #${i + 1}`),
+      ]),
+    [allInclusions, inclusions, dieDims, dieType]
+  );
+
+  const physics = weightsWithInclusions(baseWeights, allInclusions, dieDims, dieType, bubbleK);
+  const currentWeights = physics.weights;
+
+  // An accumulating sample fixes the die until it is reset
+  const sampleLocked = accumulate && counts !== null && imported === null;
 
   // -----------------------------
   // Derived chart data
   // -----------------------------
+  // Imported logs are compared against the live model; simulations against their own run
+  const modelWeights = imported ? currentWeights : fixedWeights;
+  const modelFaces = imported ? faces : fixedFaces;
+  const modelProbs = imported ? normalizeWeights(currentWeights) : probs;
+  const meanStep = imported ? IMPORT_SAMPLE_STEP : sampleStep;
+
+  const intervals = useMemo(() => {
+    if (!counts) return null;
+    try {
+      return confidenceIntervals(counts, 1 - ciLevel, ciMethod);
+    } catch {
+      return null;
+    }
+  }, [counts, ciLevel, ciMethod]);
+
   const probData = useMemo(() => {
-    if (!probs || !relFreq) return [];
-    return probs.map((p, i) => ({
-      face: i + 1,
+    if (!modelProbs || !relFreq) return [];
+    return modelProbs.map((p, i) => ({
+      face: modelFaces[i].label,
       theoretical: Number(p.toFixed(4)),
       sample: Number(relFreq[i].toFixed(4)),
+      sampleError: intervals
+        ? [relFreq[i] - intervals[i].lower, intervals[i].upper - relFreq[i]]
+        : [0, 0],
     }));
-  }, [probs, relFreq]);
+  }, [modelProbs, relFreq, intervals, modelFaces]);
+
+  const modelValues = useMemo(() => modelFaces.map((f) => f.value), [modelFaces]);
+
+  const modelRunningMean = useMemo(() => {
+    if (!imported) return runningMean;
+    const { sequence } = imported.log;
+    return sequence ? runningMeanOf(sequence, modelValues, IMPORT_SAMPLE_STEP) : null;
+  }, [imported, runningMean, modelValues]);
 
+  // CDF over the distinct outcome values x, in ascending order
   const cdfData = useMemo(() => {
-    if (!probs || !relFreq) return [];
+    if (!modelProbs || !relFreq) return [];
+    const theoretical = valueDistribution(modelProbs, modelValues);
+    const empirical = valueDistribution(relFreq, modelValues);
     let cumTheoretical = 0;
     let cumEmpirical = 0;
 
-    return probs.map((p, i) => {
+    return theoretical.map(({ value, p }, i) => {
       cumTheoretical += p;
-      cumEmpirical += relFreq[i];
+      cumEmpirical += empirical[i].p;
       return {
-        face: i + 1,
+        value,
         theoreticalCdf: Number(cumTheoretical.toFixed(4)),
         empiricalCdf: Number(cumEmpirical.toFixed(4)),
       };
     });
-  }, [probs, relFreq]);
+  }, [modelProbs, relFreq, modelValues]);
 
-  const theoMean = useMemo(() => {
-    if (!probs) return null;
-    return probs.reduce((sum, p, i) => sum + p * (i + 1), 0);
-  }, [probs]);
+  const theoreticalMoments = useMemo(
+    () => (modelProbs ? moments(modelProbs, modelValues) : null),
+    [modelProbs, modelValues]
+  );
+
+  const empiricalMoments = useMemo(
+    () => (relFreq ? moments(relFreq, modelValues) : null),
+    [relFreq, modelValues]
+  );
+
+  const theoMean = theoreticalMoments?.mean ?? null;
 
   const meanData = useMemo(() => {
-    if (!runningMean) return [];
-    const sampleStep = Math.max(
-      1,
-      Math.floor(nRolls / Math.max(1, runningMean.length))
-    );
-    return runningMean.map((m, idx) => ({
-      n: (idx + 1) * sampleStep,
+    if (!modelRunningMean || !counts) return [];
+    const total = counts.reduce((acc, c) => acc + c, 0);
+    return modelRunningMean.map((m, idx) => ({
+      n: Math.min((idx + 1) * meanStep, total),
       mean: Number(m.toFixed(4)),
     }));
-  }, [runningMean, nRolls]);
+  }, [modelRunningMean, counts, meanStep]);
+
+  // The seed to share: the seed input, or the one the last run drew
+  const shareableSeed = seed.trim() !== "" ? seed.trim() : usedSeed;
+
+  // The configuration alone: small enough to live in the page address
+  const configScenario = useMemo((): Scenario => {
+    const result: Scenario = {
+      version: SCENARIO_VERSION,
+      mode,
+      dieType,
+      weights,
+      dimensions,
+      target,
+      faces,
+      bubble,
+      inclusions,
+      exponent,
+      bubbleK,
+      nRolls,
+      sampler,
+    };
+    if (shareSeed && shareableSeed) result.seed = shareableSeed;
+    return result;
+  }, [
+    mode, dieType, weights, dimensions, target, faces, bubble, inclusions, exponent, bubbleK,
+    nRolls, sampler, shareSeed, shareableSeed,
+  ]);
+
+  // What "Copy link" and the JSON download share, results included when asked for
+  const scenario = useMemo((): Scenario => {
+    const result: Scenario = { ...configScenario };
+    if (shareResults && imported) {
+      result.results = { source: "import", name: imported.name, log: imported.log };
+    } else if (shareResults && counts && probs && runningMean && usedSeed && usedSampler) {
+      result.results = {
+        source: "simulation",
+        weights: fixedWeights,
+        faces: fixedFaces,
+        sampler: usedSampler,
+        seed: usedSeed,
+        counts,
+        probs,
+        runningMean,
+        sampleStep,
+      };
+    }
+    return result;
+  }, [
+    configScenario, shareResults, imported, counts, probs, runningMean, usedSeed, usedSampler,
+    fixedWeights, fixedFaces, sampleStep,
+  ]);
 
   // -----------------------------
   // Chart configs
@@ -151,8 +368,214 @@ export default function HomePage() {
     }));
   };
 
+  const handleDieTypeChange = (type: DieType) => {
+    simulation.cancel();
+    setDieType(type);
+    if (type !== "d6" && mode === "target") setMode("weights");
+    setWeights(Array(faceCountOf(type)).fill(1));
+    setFaces(defaultFaces(faceCountOf(type)));
+
+    // Old results have a different number of faces
+    clearResults();
+  };
+
+  const clearResults = () => {
+    setCounts(null);
+    setRelFreq(null);
+    setProbs(null);
+    setRunningMean(null);
+    setImported(null);
+    setUnsettledTosses(null);
+    setBatches(0);
+    setRunConfig(null);
+  };
+
+  const handleResetSample = () => {
+    simulation.cancel();
+    setError(null);
+    clearResults();
+  };
+
+  // Changes from the analysis panels must not alter a die that is still accumulating
+  const rejectWhileLocked = () => {
+    if (sampleLocked) setError("Reset the sample before changing the configuration.");
+    return sampleLocked;
+  };
+
+  const handleImport = (log: RollLog, name: string) => {
+    simulation.cancel();
+    setError(null);
+
+    const total = log.counts.reduce((acc, c) => acc + c, 0);
+    setImported({ name, log });
+    setCounts(log.counts);
+    setRelFreq(log.counts.map((c) => c / total));
+    setUsedSampler(null);
+    setUnsettledTosses(null);
+    setBatches(0);
+  };
+
+  const handleToss = async (params: Omit<TossConfig, "dims" | "inclusions">, n: number) => {
+    try {
+      setError(null);
+
+      const runSeed = seed.trim() === "" ? String(randomSeed()) : seed.trim();
+      const result = await simulation.runTosses({
+        config: { ...params, dims: dieDims, inclusions: allInclusions },
+        n,
+        seed: runSeed,
+      });
+      if (!result) return;
+
+      handleImport(result, `${n.toLocaleString()} rigid-body tosses (seed ${runSeed})`);
+      setUsedSeed(runSeed);
+      setUnsettledTosses(result.unsettled);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An unexpected error occurred during the tosses.");
+    }
+  };
+
+  const handleLoadScenario = (loaded: Scenario) => {
+    simulation.cancel();
+    setError(null);
+    setScenarioError(null);
+
+    setMode(loaded.mode);
+    setDieType(loaded.dieType);
+    setWeights(loaded.weights);
+    setDimensions(loaded.dimensions);
+    setTarget(loaded.target);
+    setFaces(loaded.faces);
+    setBubble(loaded.bubble);
+    setInclusions(loaded.inclusions);
+    setExponent(loaded.exponent);
+    setBubbleK(loaded.bubbleK);
+    setNRolls(loaded.nRolls);
+    setSampler(loaded.sampler);
+    setSeed(loaded.seed ?? "");
+    setShareSeed(loaded.seed !== undefined);
+    setShareResults(loaded.results !== undefined);
+
+    clearResults();
+    setUsedSeed(null);
+    setUsedSampler(null);
+    const results = loaded.results;
+    if (results?.source === "import") {
+      handleImport(results.log, results.name);
+    } else if (results) {
+      const total = results.counts.reduce((acc, c) => acc + c, 0);
+      setFixedWeights(results.weights);
+      setFixedFaces(results.faces);
+      setUsedSeed(results.seed);
+      setUsedSampler(results.sampler);
+      setCounts(results.counts);
+      setRelFreq(results.counts.map((c) => (total > 0 ? c / total : 0)));
+      setProbs(results.probs);
+      setRunningMean(results.runningMean);
+      setSampleStep(results.sampleStep);
+      setBatches(1);
+      setRunConfig({ ...loaded, results: undefined });
+    }
+  };
+
+  // Restore the scenario in the page address once, on load
+  const restoreFromUrl = useEffectEvent(() => {
+    try {
+      const loaded = scenarioFromQuery(window.location.search);
+      if (loaded) handleLoadScenario(loaded);
+    } catch (e) {
+      setScenarioError(e instanceof Error ? e.message : "Could not read the scenario in the link.");
+    }
+    setUrlLoaded(true);
+  });
+
+  useEffect(() => restoreFromUrl(), []);
+
+  // Keep the page address in step with the configuration; results only travel in shared links
+  useEffect(() => {
+    if (!urlLoaded) return;
+    window.history.replaceState(null, "", scenarioToQuery(configScenario));
+  }, [urlLoaded, configScenario]);
+
+  const handleExport = (format: "csv" | "json") => {
+    if (!counts || !relFreq || !modelProbs) return;
+    const data: RunExport = {
+      exportedAt: new Date().toISOString(),
+      source: imported ? imported.name : "simulation",
+      config: (!imported && runConfig) || configScenario,
+      seed: usedSeed,
+      sampler: usedSampler,
+      faces: modelFaces,
+      weights: modelWeights,
+      counts,
+      relFreq,
+      probs: modelProbs,
+      runningMean: modelRunningMean,
+      sampleStep: meanStep,
+      moments: { theoretical: theoreticalMoments, empirical: empiricalMoments },
+    };
+    const name = `weighted-dice-${data.config.dieType}-${data.exportedAt.replace(/[:.]/g, "-")}`;
+    if (format === "csv") downloadFile(`${name}.csv`, runExportToCsv(data), "text/csv");
+    else downloadFile(`${name}.json`, runExportToJson(data), "application/json");
+  };
+
+  const handleApplyWeights = (newWeights: number[]) => {
+    if (rejectWhileLocked()) return;
+    setMode("weights");
+    setWeights(newWeights);
+  };
+
+  // The posterior is already the face probabilities: nothing may reweight it
+  const handleApplyPosterior = (newWeights: number[]) => {
+    if (rejectWhileLocked()) return;
+    handleApplyWeights(newWeights);
+    setBubble((prev) => ({ ...prev, enabled: false }));
+    setInclusions([]);
+  };
+
+  const handleTargetChange = (index: number, value: number) => {
+    setTarget((prev) => prev.map((t, i) => (i === index ? Math.max(value, 0) : t)));
+  };
+
+  const handleUseProjection = () => {
+    if (!projection) return;
+    setDimensions(projection.dims);
+    setMode("dimensions");
+  };
+
+  const handleApplyDesign = (designBubble: BubbleConfig, designDims: DieDims | null) => {
+    if (rejectWhileLocked()) return;
+    if (designDims) {
+      setMode("dimensions");
+      setDimensions(designDims);
+    }
+    setBubble(designBubble);
+    setInclusions([]);
+  };
+
+  const handleMoveBubble = (offset: Vec3, radius: number) => {
+    if (rejectWhileLocked()) return;
+    setBubble(clampBubbleToDie({ enabled: true, offset, radius }, dieDims, dieType));
+  };
+
+  const handleApplyCalibration = (fittedExponent: number, fittedK: number | null) => {
+    if (rejectWhileLocked()) return;
+    setExponent(fittedExponent);
+    setBubbleK(fittedK);
+  };
+
+  const handleResetCalibration = () => {
+    if (rejectWhileLocked()) return;
+    setExponent(DEFAULT_EXPONENT);
+    setBubbleK(null);
+  };
+
+  const handleFaceChange = (index: number, patch: Partial<FaceSpec>) => {
+    setFaces((prev) => prev.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+  };
+
   const handleBubbleSizeChange = (value: number) => {
-    setBubble((prev) => clampBubbleToDie({ ...prev, radius: value }, dieDims));
+    setBubble((prev) => clampBubbleToDie({ ...prev, radius: value }, dieDims, dieType));
   };
 
   const handleBubbleOffsetChange = (
@@ -162,64 +585,105 @@ export default function HomePage() {
     setBubble((prev) =>
       clampBubbleToDie(
         { ...prev, offset: { ...prev.offset, [axis]: value } },
-        dieDims
+        dieDims,
+        dieType
       )
     );
   };
 
+  const handleInclusionChange = (index: number, patch: Partial<Inclusion>) => {
+    setInclusions((prev) =>
+      prev.map((inc, i) =>
+        i === index ? clampInclusionToDie({ ...inc, ...patch }, dieDims, dieType) : inc
+      )
+    );
+  };
+
+  const handleAddInclusion = () => {
+    setInclusions((prev) => [...prev, clampInclusionToDie(DEFAULT_INCLUSION, dieDims, dieType)]);
+  };
+
+  const handleRemoveInclusion = (index: number) => {
+    setInclusions((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const handleSimulate = async () => {
     try {
       setError(null);
-      setIsSimulating(true);
-
-      await new Promise<void>((resolve) =>
-        requestAnimationFrame(() => resolve())
-      );
-
-      setFixedWeights(currentWeights);
 
-      const { counts, relFreq, probs, runningMean } = simulateRolls(
-        currentWeights,
-        nRolls
+      // Blank seed: draw a fresh one so the run can still be replayed
+      const runSeed = seed.trim() === "" ? String(randomSeed()) : seed.trim();
+      const runWeights = currentWeights;
+      const runFaces = faces;
+      const runScenario = configScenario;
+
+      // Continue the locked sample: same die, one derived seed per extra batch
+      const previous =
+        sampleLocked && counts && relFreq && probs && runningMean && usedSampler && usedSeed
+          ? { counts, relFreq, probs, runningMean, sampleStep, sampler: usedSampler }
+          : null;
+
+      const result = await simulation.run(
+        previous
+          ? {
+              weights: fixedWeights,
+              n: nRolls,
+              seed: `${usedSeed}/${batches + 1}`,
+              sampler: previous.sampler,
+              sampleStep: continuedSampleStep(previous, nRolls),
+              values: fixedFaces.map((f) => f.value),
+              previous,
+            }
+          : {
+              weights: runWeights,
+              n: nRolls,
+              seed: runSeed,
+              sampler,
+              sampleStep: defaultSampleStep(nRolls),
+              values: runFaces.map((f) => f.value),
+            }
       );
-
-      setCounts(counts);
-      setRelFreq(relFreq);
-      setProbs(probs);
-      setRunningMean(runningMean);
+      if (!result) return;
+
+      if (previous) {
+        setBatches((b) => b + 1);
+      } else {
+        setFixedWeights(runWeights);
+        setFixedFaces(runFaces);
+        setUsedSeed(runSeed);
+        setBatches(1);
+        setRunConfig(runScenario);
+      }
+      setUsedSampler(result.sampler);
+      setCounts(result.counts);
+      setRelFreq(result.relFreq);
+      setProbs(result.probs);
+      setRunningMean(result.runningMean);
+      setSampleStep(result.sampleStep);
+      setImported(null);
+      setUnsettledTosses(null);
     } catch {
       setError("An unexpected error occurred during the simulation.");
-    } finally {
-      setIsSimulating(false);
     }
   };
 
   // -----------------------------
   // Summary values
   // -----------------------------
-  const theoreticalEV = probs
-    ? probs.reduce((sum, p, i) => sum + p * (i + 1), 0)
-    : null;
-
-  const empiricalEV = relFreq
-    ? relFreq.reduce((sum, f, i) => sum + f * (i + 1), 0)
-    : null;
-
-  const theoreticalVar = probs
-    ? probs.reduce((sum, p, i) => sum + p * Math.pow(i + 1, 2), 0) -
-      Math.pow(probs.reduce((sum, p, i) => sum + p * (i + 1), 0), 2)
-    : null;
-
-  const empiricalVar = relFreq
-    ? relFreq.reduce((sum, f, i) => sum + f * Math.pow(i + 1, 2), 0) -
-      Math.pow(relFreq.reduce((sum, f, i) => sum + f * (i + 1), 0), 2)
-    : null;
+  const theoreticalEV = theoreticalMoments?.mean ?? null;
+  const empiricalEV = empiricalMoments?.mean ?? null;
+  const theoreticalVar = theoreticalMoments?.variance ?? null;
+  const empiricalVar = empiricalMoments?.variance ?? null;
 
   return (
     <main className="min-h-screen flex flex-col items-center justify-start p-8 gap-8">
       <h1 className="text-2xl font-bold mb-2">Weighted Die Simulator</h1>
 
-      <ModeToggle mode={mode} setMode={setMode} />
+      <fieldset disabled={sampleLocked} className="contents">
+        <ModeToggle mode={mode} setMode={setMode} targetAvailable={dieType === "d6"} />
+
+        <DieTypeSelect dieType={dieType} onChange={handleDieTypeChange} />
+      </fieldset>
 
       <div className="flex flex-col md:flex-row gap-8 w-full max-w-5xl">
         <div className="flex-1 flex flex-col gap-4">
@@ -230,48 +694,158 @@ export default function HomePage() {
             onChange={(v) => setNRolls(v)}
           />
 
-          {mode === "weights" ? (
-            <WeightsGrid weights={weights} onChange={handleWeightChange} />
-          ) : (
-            <DimensionsPanel
-              dimensions={dimensions}
-              onChange={handleDimensionChange}
-              currentWeights={currentWeights}
-              exponent={DIMENSIONS_EXPONENT}
+          <fieldset disabled={sampleLocked} className="contents">
+            <SeedInput
+              seed={seed}
+              usedSeed={usedSeed}
+              onChange={setSeed}
             />
-          )}
 
-          <BubblePanel
-            bubble={bubble}
-            dieDims={dieDims}
-            halfDims={halfDims}
-            setBubble={setBubble}
-            onRadiusChange={handleBubbleSizeChange}
-            onOffsetChange={handleBubbleOffsetChange}
+            <SamplerSelect sampler={sampler} onChange={setSampler} />
+
+            {mode === "weights" ? (
+              <WeightsGrid
+                weights={weights}
+                labels={faces.map((f) => f.label)}
+                onChange={handleWeightChange}
+              />
+            ) : mode === "target" ? (
+              <TargetPanel
+                target={target}
+                labels={faces.map((f) => f.label)}
+                projection={projection}
+                onChange={handleTargetChange}
+                onUseDimensions={handleUseProjection}
+              />
+            ) : (
+              <DimensionsPanel
+                dimensions={dimensions}
+                onChange={handleDimensionChange}
+                currentWeights={currentWeights}
+                labels={faces.map((f) => f.label)}
+                exponent={exponent}
+                dieType={dieType}
+              />
+            )}
+
+            <FacesPanel
+              faces={faces}
+              onChange={handleFaceChange}
+              onReset={() => setFaces(defaultFaces(faces.length))}
+            />
+
+            <BubblePanel
+              bubble={bubble}
+              dieDims={dieDims}
+              dieType={dieType}
+              halfDims={halfDims}
+              maxRadius={geometry.inradius}
+              setBubble={setBubble}
+              onRadiusChange={handleBubbleSizeChange}
+              onOffsetChange={handleBubbleOffsetChange}
+            />
+
+            <InclusionsPanel
+              inclusions={inclusions}
+              issues={physics.error ? [...inclusionIssues, physics.error] : inclusionIssues}
+              halfDims={halfDims}
+              onChange={handleInclusionChange}
+              onAdd={handleAddInclusion}
+              onRemove={handleRemoveInclusion}
+            />
+          </fieldset>
+
+          <MassPropertiesPanel dims={dieDims} inclusions={allInclusions} dieType={dieType} />
+
+          <AccumulateControls
+            accumulate={accumulate}
+            locked={sampleLocked}
+            batches={batches}
+            rolls={counts ? counts.reduce((acc, c) => acc + c, 0) : 0}
+            disabled={simulation.isRunning}
+            onAccumulateChange={setAccumulate}
+            onReset={handleResetSample}
           />
 
-          <PrimaryButton onClick={handleSimulate} disabled={isSimulating}>
-            {isSimulating ? "Simulating..." : "Simulate"}
-          </PrimaryButton>
+          {simulation.isRunning ? (
+            <PrimaryButton onClick={simulation.cancel}>Cancel</PrimaryButton>
+          ) : (
+            <PrimaryButton onClick={handleSimulate}>
+              {sampleLocked ? `Add ${nRolls.toLocaleString()} rolls` : "Simulate"}
+            </PrimaryButton>
+          )}
+
+          {simulation.progress && (
+            <SimulationProgressPanel progress={simulation.progress} labels={faces.map((f) => f.label)} />
+          )}
 
           {error && <ErrorBanner message={error} />}
 
+          <ScenarioPanel
+            scenario={scenario}
+            includeSeed={shareSeed}
+            includeResults={shareResults}
+            seedAvailable={shareableSeed !== null}
+            resultsAvailable={counts !== null}
+            loadError={scenarioError}
+            onIncludeSeedChange={setShareSeed}
+            onIncludeResultsChange={setShareResults}
+            onLoad={handleLoadScenario}
+          />
+
+          <ImportPanel labels={faces.map((f) => f.label)} onImport={handleImport} />
+
+          <TossPanel
+            disabled={dieType !== "d6" || simulation.isRunning}
+            unsettled={unsettledTosses}
+            onRun={handleToss}
+          />
+
           <SummaryPanel
             theoreticalEV={theoreticalEV}
             empiricalEV={empiricalEV}
             theoreticalVar={theoreticalVar}
             empiricalVar={empiricalVar}
           />
+
+          {counts && relFreq && modelProbs && <ExportControls onExport={handleExport} />}
+
+          {counts && modelProbs && <ChiSquaredCard counts={counts} probs={modelProbs} />}
         </div>
 
         <div className="flex-1">
-          <WeightedDieCanvas weights={currentWeights} bubble={bubble} dimensions={dieDims} />
+          <WeightedDieCanvas
+            weights={currentWeights}
+            bubble={bubble}
+            inclusions={inclusions}
+            dimensions={dieDims}
+            dieType={dieType}
+            labels={faces.map((f) => f.label)}
+          />
 
-          {counts && relFreq && probs && (
+          {counts && relFreq && modelProbs && (
             <div className="mt-4">
+              {usedSampler && (
+                <p className="text-xs text-slate-400 mb-2">
+                  Sampled with: {SAMPLER_LABELS[usedSampler]}
+                </p>
+              )}
+              {imported && (
+                <p className="text-xs text-slate-400 mb-2">
+                  Data from {imported.name}, compared against the current model
+                </p>
+              )}
+
+              <IntervalControls
+                method={ciMethod}
+                level={ciLevel}
+                onMethodChange={setCiMethod}
+                onLevelChange={setCiLevel}
+              />
+
               <ProbabilitiesCard probData={probData} probConfig={probConfig} />
 
-              {runningMean && theoMean !== null && (
+              {modelRunningMean && theoMean !== null && (
                 <MeanConvergenceCard
                   meanData={meanData}
                   meanChartConfig={meanChartConfig}
@@ -282,15 +856,84 @@ export default function HomePage() {
               <CdfCard cdfData={cdfData} cdfChartConfig={cdfChartConfig} />
 
               <ResultsTable
-                fixedWeights={fixedWeights}
+                fixedWeights={modelWeights}
+                faces={modelFaces}
                 counts={counts}
                 relFreq={relFreq}
-                probs={probs}
+                probs={modelProbs}
+                intervals={intervals}
               />
             </div>
           )}
         </div>
       </div>
+
+      <PosteriorPanel
+        key={dieType}
+        counts={counts}
+        labels={faces.map((f) => f.label)}
+        physicsActive={bubble.enabled || inclusions.length > 0}
+        onApplyWeights={handleApplyPosterior}
+      />
+
+      <CalibrationPanel
+        key={`calibration-${dieType}`}
+        counts={counts}
+        faceCount={geometry.faceCount}
+        dieType={dieType}
+        dims={dieDims}
+        inclusions={allInclusions}
+        exponent={exponent}
+        bubbleK={bubbleK}
+        mode={mode}
+        onApply={handleApplyCalibration}
+        onReset={handleResetCalibration}
+      />
+
+      <InverseDesignPanel
+        key={`design-${dieType}`}
+        dieType={dieType}
+        dims={dieDims}
+        baseWeights={baseWeights}
+        exponent={exponent}
+        bubbleK={bubbleK}
+        labels={faces.map((f) => f.label)}
+        hasInclusions={inclusions.length > 0}
+        onApply={handleApplyDesign}
+      />
+
+      <HeatmapPanel
+        key={`heatmap-${dieType}`}
+        dieType={dieType}
+        dims={dieDims}
+        bubble={bubble}
+        baseWeights={baseWeights}
+        bubbleK={bubbleK}
+        labels={faces.map((f) => f.label)}
+        onMoveBubble={handleMoveBubble}
+      />
+
+      <SweepPanel
+        key={`sweep-${dieType}`}
+        dieType={dieType}
+        dims={dieDims}
+        bubble={bubble}
+        baseWeights={baseWeights}
+        exponent={exponent}
+        bubbleK={bubbleK}
+        labels={faces.map((f) => f.label)}
+        seed={seed}
+      />
+
+      <ComparisonPanel
+        currentWeights={currentWeights}
+        faces={faces}
+        scenario={scenario}
+        sampler={sampler}
+        onLoad={handleLoadScenario}
+      />
+
+      <DicePoolPanel currentWeights={currentWeights} faces={faces} sampler={sampler} seed={seed} />
     </main>
   );
 }
@@ -302,9 +945,11 @@ export default function HomePage() {
 function ModeToggle({
   mode,
   setMode,
+  targetAvailable,
 }: {
   mode: MODE;
   setMode: React.Dispatch<React.SetStateAction<MODE>>;
+  targetAvailable: boolean;
 }) {
   return (
     <div className="flex gap-8 mb-4">
@@ -329,10 +974,133 @@ function ModeToggle({
       >
         Physical dimensions
       </button>
+
+      <button
+        onClick={() => setMode("target")}
+        disabled={!targetAvailable}
+        title={targetAvailable ? undefined : "Only available for the d6"}
+        className={
+          mode === "target"
+            ? "underline underline-offset-2"
+            : "cursor-pointer text-slate-400 hover:text-slate-200 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+        }
+      >
+        Target probabilities
+      </button>
+    </div>
+  );
+}
+
+function TargetPanel({
+  target,
+  labels,
+  projection,
+  onChange,
+  onUseDimensions,
+}: {
+  target: number[];
+  labels: string[];
+  projection: CuboidProjection | null;
+  onChange: (index: number, value: number) => void;
+  onUseDimensions: () => void;
+}) {
+  return (
+    <div className="flex flex-col gap-3 border rounded-lg p-3">
+      <div className="text-xs uppercase font-semibold">Target probabilities</div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {target.map((t, i) => (
+          <label key={i} className="flex flex-col gap-1 text-xs">
+            <span className="uppercase">Face {labels[i]}</span>
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={t}
+              onChange={(e) => onChange(i, Number(e.target.value))}
+              className="border px-2 py-1 rounded"
+            />
+          </label>
+        ))}
+      </div>
+
+      {!projection ? (
+        <div className="text-red-600 text-xs">ERROR: enter at least one positive probability.</div>
+      ) : (
+        <>
+          <div className="text-xs">
+            Closest cuboid: {projection.dims.lx.toFixed(3)} &times; {projection.dims.ly.toFixed(3)}{" "}
+            &times; {projection.dims.lz.toFixed(3)}
+          </div>
+
+          <table className="border-collapse border w-full text-xs">
+            <thead>
+              <tr>
+                <th className="border px-2 py-1">Face</th>
+                <th className="border px-2 py-1">Target</th>
+                <th className="border px-2 py-1">Achieved</th>
+                <th className="border px-2 py-1">Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {projection.target.map((t, i) => (
+                <tr key={i}>
+                  <td className="border px-2 py-1 text-center">{labels[i]}</td>
+                  <td className="border px-2 py-1 text-center">{t.toFixed(4)}</td>
+                  <td className="border px-2 py-1 text-center">{projection.achieved[i].toFixed(4)}</td>
+                  <td className="border px-2 py-1 text-center">{projection.errors[i].toFixed(4)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {projection.violations.length === 0 ? (
+            <p className="text-[11px] text-green-500">The target is matched exactly.</p>
+          ) : (
+            <ul className="text-[11px] text-amber-500 list-disc pl-4">
+              {projection.violations.map((v) => (
+                <li key={v}>{v}</li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            onClick={onUseDimensions}
+            className="self-start border rounded px-2 py-1 text-xs cursor-pointer hover:bg-white/10"
+          >
+            Edit these dimensions
+          </button>
+        </>
+      )}
     </div>
   );
 }
 
+function DieTypeSelect({
+  dieType,
+  onChange,
+}: {
+  dieType: DieType;
+  onChange: (value: DieType) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="uppercase">Die type</span>
+      <select
+        value={dieType}
+        onChange={(e) => onChange(e.target.value as DieType)}
+        className="border px-2 py-1 rounded bg-transparent"
+      >
+        {DIE_TYPES.map((type) => (
+          <option key={type} value={type} className="bg-neutral-900">
+            {DIE_TYPE_LABELS[type]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
 function NumberInput({
   label,
   value,
@@ -360,18 +1128,84 @@ function NumberInput({
   );
 }
 
+function SeedInput({
+  seed,
+  usedSeed,
+  onChange,
+}: {
+  seed: string;
+  usedSeed: string | null;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1">
+      <label className="flex items-center gap-2">
+        <span className="w-40 whitespace-nowrap">Seed:</span>
+        <input
+          type="text"
+          value={seed}
+          placeholder="random"
+          onChange={(e) => onChange(e.target.value)}
+          className="border px-2 py-1 rounded w-full"
+        />
+      </label>
+
+      {usedSeed !== null && (
+        <div className="flex items-center justify-between text-xs text-slate-400">
+          <span>Last run seed: {usedSeed}</span>
+          {usedSeed !== seed.trim() && (
+            <button
+              onClick={() => onChange(usedSeed)}
+              className="cursor-pointer underline underline-offset-2 hover:text-slate-200 transition-all"
+            >
+              Replay
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SamplerSelect({
+  sampler,
+  onChange,
+}: {
+  sampler: SamplerKind;
+  onChange: (value: SamplerKind) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2">
+      <span className="w-40 whitespace-nowrap">Sampler:</span>
+      <select
+        value={sampler}
+        onChange={(e) => onChange(e.target.value as SamplerKind)}
+        className="border px-2 py-1 rounded w-full bg-transparent"
+      >
+        {(Object.keys(SAMPLER_LABELS) as SamplerKind[]).map((kind) => (
+          <option key={kind} value={kind} className="bg-neutral-900">
+            {SAMPLER_LABELS[kind]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
 function WeightsGrid({
   weights,
+  labels,
   onChange,
 }: {
   weights: number[];
+  labels: string[];
   onChange: (index: number, value: number) => void;
 }) {
   return (
     <div className="grid grid-cols-2 gap-3">
       {weights.map((w, i) => (
         <div key={i} className="border rounded-lg p-2 flex flex-col gap-2">
-          <div className="text-center font-semibold uppercase">Face {i + 1}</div>
+          <div className="text-center font-semibold uppercase">Face {labels[i]}</div>
           <label className="text-xs uppercase">
             Weight:
             <input
@@ -393,12 +1227,16 @@ function DimensionsPanel({
   dimensions,
   onChange,
   currentWeights,
+  labels,
   exponent,
+  dieType,
 }: {
   dimensions: { lx: number; ly: number; lz: number };
   onChange: (key: "lx" | "ly" | "lz", value: number) => void;
   currentWeights: number[];
+  labels: string[];
   exponent: number;
+  dieType: DieType;
 }) {
   return (
     <div className="flex flex-col gap-3 border rounded-lg p-3">
@@ -421,7 +1259,7 @@ function DimensionsPanel({
       <div className="grid grid-cols-2 gap-2 text-xs">
         {currentWeights.map((w, i) => (
           <div key={i} className="flex justify-between border rounded px-2 py-1">
-            <span>Face {i + 1}</span>
+            <span>Face {labels[i]}</span>
             <span>{w.toFixed(3)}</span>
           </div>
         ))}
@@ -429,22 +1267,76 @@ function DimensionsPanel({
 
       <p className="text-[11px] text-center text-slate-500">
         Weights are proportional to the landing face area (exponent {exponent}).
+        {dieType !== "d6" && " Dimensions stretch the unit-volume polyhedron along each axis."}
       </p>
     </div>
   );
 }
 
+function FacesPanel({
+  faces,
+  onChange,
+  onReset,
+}: {
+  faces: FaceSpec[];
+  onChange: (index: number, patch: Partial<FaceSpec>) => void;
+  onReset: () => void;
+}) {
+  return (
+    <div className="flex flex-col gap-2 border rounded-lg p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs uppercase font-semibold">Face values (x&#x1D62;)</span>
+        <button
+          onClick={onReset}
+          className="text-xs cursor-pointer text-slate-400 hover:text-slate-200 transition-all"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr_1fr] gap-x-2 gap-y-1 items-center text-xs">
+        <span />
+        <span className="uppercase text-slate-400">Value</span>
+        <span className="uppercase text-slate-400">Label</span>
+
+        {faces.map((f, i) => (
+          <Fragment key={i}>
+            <span>Face {i + 1}</span>
+            <input
+              type="number"
+              step={1}
+              value={f.value}
+              onChange={(e) => onChange(i, { value: Number(e.target.value) })}
+              className="border px-2 py-1 rounded w-full"
+            />
+            <input
+              type="text"
+              value={f.label}
+              onChange={(e) => onChange(i, { label: e.target.value })}
+              className="border px-2 py-1 rounded w-full"
+            />
+          </Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function BubblePanel({
   bubble,
   dieDims,
+  dieType,
   halfDims,
+  maxRadius,
   setBubble,
   onRadiusChange,
   onOffsetChange,
 }: {
   bubble: BubbleConfig;
   dieDims: { lx: number; ly: number; lz: number };
+  dieType: DieType;
   halfDims: { x: number; y: number; z: number };
+  maxRadius: number;
   setBubble: React.Dispatch<React.SetStateAction<BubbleConfig>>;
   onRadiusChange: (value: number) => void;
   onOffsetChange: (axis: "x" | "y" | "z", value: number) => void;
@@ -458,7 +1350,7 @@ function BubblePanel({
           checked={bubble.enabled}
           onChange={(e) =>
             setBubble((prev) =>
-              clampBubbleToDie({ ...prev, enabled: e.target.checked }, dieDims)
+              clampBubbleToDie({ ...prev, enabled: e.target.checked }, dieDims, dieType)
             )
           }
           className="size-5 accent-blue-400"
@@ -472,7 +1364,7 @@ function BubblePanel({
             type="number"
             step={0.01}
             min={0}
-            max={Math.min(halfDims.x, halfDims.y, halfDims.z)}
+            max={maxRadius}
             value={bubble.radius}
             onChange={(e) => onRadiusChange(Number(e.target.value))}
             className="border px-2 py-1 rounded w-full"
@@ -504,6 +1396,61 @@ function BubblePanel({
   );
 }
 
+function AccumulateControls({
+  accumulate,
+  locked,
+  batches,
+  rolls,
+  disabled,
+  onAccumulateChange,
+  onReset,
+}: {
+  accumulate: boolean;
+  locked: boolean;
+  batches: number;
+  rolls: number;
+  disabled: boolean;
+  onAccumulateChange: (value: boolean) => void;
+  onReset: () => void;
+}) {
+  return (
+    <div className="flex flex-col gap-2 border rounded-lg p-3 text-xs">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={accumulate}
+          disabled={locked}
+          onChange={(e) => onAccumulateChange(e.target.checked)}
+          className="accent-blue-400"
+        />
+        <span>Accumulate: add each run to the current sample</span>
+      </label>
+
+      {locked ? (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-slate-400">
+            {rolls.toLocaleString()} rolls in {batches} {batches === 1 ? "batch" : "batches"}; the
+            configuration is locked until the sample is reset.
+          </span>
+          <button
+            onClick={onReset}
+            disabled={disabled}
+            className="border rounded px-2 py-1 uppercase whitespace-nowrap cursor-pointer hover:bg-white/10 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            Reset sample
+          </button>
+        </div>
+      ) : (
+        accumulate && (
+          <span className="text-slate-400">
+            The next run starts a new sample; later runs add to it.
+          </span>
+        )
+      )}
+    </div>
+  );
+}
+
 function PrimaryButton({
   children,
   onClick,
@@ -524,6 +1471,41 @@ function PrimaryButton({
   );
 }
 
+function SimulationProgressPanel({
+  progress,
+  labels,
+}: {
+  progress: SimulationProgress;
+  labels: string[];
+}) {
+  const { rolled, n, counts } = progress;
+  const fraction = n > 0 ? rolled / n : 0;
+
+  return (
+    <div className="flex flex-col gap-2 border rounded-lg p-3 text-xs">
+      <div className="flex justify-between">
+        <span className="uppercase font-semibold">Progress</span>
+        <span>
+          {rolled.toLocaleString()} / {n.toLocaleString()} ({(fraction * 100).toFixed(1)}%)
+        </span>
+      </div>
+
+      <div className="h-2 rounded bg-white/10 overflow-hidden">
+        <div className="h-full bg-white transition-all" style={{ width: `${fraction * 100}%` }} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-1 text-slate-400">
+        {counts.map((c, i) => (
+          <div key={i} className="flex justify-between">
+            <span>Face {labels[i]}</span>
+            <span>{rolled > 0 ? (c / rolled).toFixed(4) : "-"}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function ErrorBanner({ message }: { message: string }) {
   return <div className="text-red-600 text-sm mt-2">ERROR: {message}</div>;
 }
@@ -558,179 +1540,106 @@ function SummaryPanel({
   );
 }
 
-function ProbabilitiesCard({
-  probData,
-  probConfig,
-}: {
-  probData: { face: number; theoretical: number; sample: number }[];
-  probConfig: any;
-}) {
+function ExportControls({ onExport }: { onExport: (format: "csv" | "json") => void }) {
   return (
-    <Card className="mb-4">
-      <CardHeader>
-        <CardTitle>Theoretical vs. Empirical Probabilities</CardTitle>
-      </CardHeader>
-      <CardContent>
-        <ChartContainer config={probConfig} className="h-72 w-full mb-4">
-          <BarChart data={probData}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="face" tickFormatter={(v) => `Face ${v}`} />
-            <YAxis
-              tickFormatter={(v) => v.toFixed(2)}
-              domain={[0, (dataMax: number) => dataMax * 1.25]}
-            />
-            <ChartTooltip content={<ChartTooltipContent />} />
-            <ChartLegend content={<ChartLegendContent />} />
-
-            <Bar
-              dataKey="theoretical"
-              fill="var(--color-theoretical)"
-              radius={[4, 4, 0, 0]}
-            >
-              <LabelList
-                dataKey="theoretical"
-                formatter={(v: number) => v.toFixed(3)}
-                position="top"
-              />
-            </Bar>
-
-            <Bar dataKey="sample" fill="var(--color-sample)" radius={[4, 4, 0, 0]}>
-              <LabelList
-                dataKey="sample"
-                formatter={(v: number) => v.toFixed(3)}
-                position="top"
-              />
-            </Bar>
-          </BarChart>
-        </ChartContainer>
-      </CardContent>
-    </Card>
-  );
-}
-
-function MeanConvergenceCard({
-  meanData,
-  meanChartConfig,
-  theoMean,
-}: {
-  meanData: { n: number; mean: number }[];
-  meanChartConfig: any;
-  theoMean: number;
-}) {
-  return (
-    <Card className="mb-4">
-      <CardHeader>
-        <CardTitle>Convergence of the Empirical Mean (LLN)</CardTitle>
-      </CardHeader>
-      <CardContent>
-        <ChartContainer config={meanChartConfig} className="h-72 w-full mb-4">
-          <LineChart data={meanData}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="n" tickFormatter={(v) => `${v}`} />
-            <YAxis tickFormatter={(v) => v.toFixed(2)} />
-            <ChartTooltip content={<ChartTooltipContent />} />
-            <ChartLegend content={<ChartLegendContent />} />
-
-            <Line
-              type="monotone"
-              dataKey={() => theoMean}
-              stroke="var(--color-theo)"
-              strokeWidth={2}
-              strokeDasharray="4 4"
-              dot={false}
-              isAnimationActive={false}
-            />
-
-            <Line
-              type="monotone"
-              dataKey="mean"
-              stroke="var(--color-mean)"
-              strokeWidth={2}
-              dot={false}
-              isAnimationActive={false}
-            />
-          </LineChart>
-        </ChartContainer>
-      </CardContent>
-    </Card>
+    <div className="flex items-center gap-2 text-xs">
+      <span className="uppercase font-semibold">Export results</span>
+      {(["csv", "json"] as const).map((format) => (
+        <button
+          key={format}
+          onClick={() => onExport(format)}
+          className="border rounded px-2 py-1 uppercase cursor-pointer hover:bg-white/10"
+        >
+          {format}
+        </button>
+      ))}
+    </div>
   );
 }
 
-function CdfCard({
-  cdfData,
-  cdfChartConfig,
+function IntervalControls({
+  method,
+  level,
+  onMethodChange,
+  onLevelChange,
 }: {
-  cdfData: { face: number; theoreticalCdf: number; empiricalCdf: number }[];
-  cdfChartConfig: any;
+  method: IntervalMethod;
+  level: number;
+  onMethodChange: (value: IntervalMethod) => void;
+  onLevelChange: (value: number) => void;
 }) {
   return (
-    <Card className="mb-4">
-      <CardHeader>
-        <CardTitle>Theoretical vs. Empirical CDF</CardTitle>
-      </CardHeader>
-      <CardContent>
-        <ChartContainer config={cdfChartConfig} className="h-72 w-full mb-4">
-          <LineChart data={cdfData}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="face" tickFormatter={(v) => `Face ${v}`} />
-            <YAxis domain={[0, 1]} tickFormatter={(v) => v.toFixed(2)} />
-            <ChartTooltip content={<ChartTooltipContent />} />
-            <ChartLegend content={<ChartLegendContent />} />
-
-            <Line
-              type="stepAfter"
-              dataKey="theoreticalCdf"
-              stroke="var(--color-theoreticalCdf)"
-              strokeWidth={2}
-              strokeDasharray="4 4"
-              dot={false}
-              isAnimationActive={false}
-            />
+    <div className="flex flex-wrap items-center gap-4 mb-4 text-xs">
+      <label className="flex items-center gap-2">
+        <span className="uppercase">Intervals</span>
+        <select
+          value={method}
+          onChange={(e) => onMethodChange(e.target.value as IntervalMethod)}
+          className="border px-2 py-1 rounded bg-transparent"
+        >
+          {(Object.keys(INTERVAL_LABELS) as IntervalMethod[]).map((m) => (
+            <option key={m} value={m} className="bg-neutral-900">
+              {INTERVAL_LABELS[m]}
+            </option>
+          ))}
+        </select>
+      </label>
 
-            <Line
-              type="stepAfter"
-              dataKey="empiricalCdf"
-              stroke="var(--color-empiricalCdf)"
-              strokeWidth={2}
-              dot={false}
-              isAnimationActive={false}
-            />
-          </LineChart>
-        </ChartContainer>
-      </CardContent>
-    </Card>
+      <label className="flex items-center gap-2">
+        <span className="uppercase">Confidence</span>
+        <select
+          value={level}
+          onChange={(e) => onLevelChange(Number(e.target.value))}
+          className="border px-2 py-1 rounded bg-transparent"
+        >
+          {[0.9, 0.95, 0.99, 0.999].map((l) => (
+            <option key={l} value={l} className="bg-neutral-900">
+              {(l * 100).toFixed(1).replace(/\.0$/, "")}%
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
   );
 }
 
 function ResultsTable({
   fixedWeights,
+  faces,
   counts,
   relFreq,
   probs,
+  intervals,
 }: {
   fixedWeights: number[];
+  faces: FaceSpec[];
   counts: number[];
   relFreq: number[];
   probs: number[];
+  intervals: Interval[] | null;
 }) {
   return (
     <table className="border-collapse border rounded-xl w-full text-xs sm:text-sm">
       <thead>
         <tr>
           <th className="border sm:px-2 py-1">Face</th>
+          <th className="border sm:px-2 py-1">Value</th>
           <th className="border sm:px-2 py-1">Weight</th>
           <th className="border sm:px-2 py-1">P(theo.)</th>
           <th className="border sm:px-2 py-1">Freq.</th>
           <th className="border sm:px-2 py-1">P(emp.)</th>
           <th className="border sm:px-2 py-1">abs error</th>
           <th className="border sm:px-2 py-1">rel error</th>
+          <th className="border sm:px-2 py-1">CI lower</th>
+          <th className="border sm:px-2 py-1">CI upper</th>
         </tr>
       </thead>
 
       <tbody>
         {fixedWeights.map((w, i) => (
           <tr key={i}>
-            <td className="border px-2 py-1 text-center">{i + 1}</td>
+            <td className="border px-2 py-1 text-center">{faces[i]?.label ?? i + 1}</td>
+            <td className="border px-2 py-1 text-center">{faces[i]?.value ?? i + 1}</td>
             <td className="border px-2 py-1 text-center">{w}</td>
             <td className="border px-2 py-1 text-center">{probs[i].toFixed(4)}</td>
             <td className="border px-2 py-1 text-center">{counts[i]}</td>
@@ -743,6 +1652,12 @@ function ResultsTable({
                 ? (Math.abs(relFreq[i] - probs[i]) / probs[i]).toFixed(4)
                 : "N/A"}
             </td>
+            <td className="border px-2 py-1 text-center">
+              {intervals ? intervals[i].lower.toFixed(4) : "-"}
+            </td>
+            <td className="border px-2 py-1 text-center">
+              {intervals ? intervals[i].upper.toFixed(4) : "-"}
+            </td>
           </tr>
         ))}
       </tbody>
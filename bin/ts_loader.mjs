@@ -0,0 +1,45 @@
+// Node module hooks for running the TypeScript sources directly: "@/..." resolves against the
+// repository root, extensionless imports find .ts/.tsx files, and TypeScript is transpiled on load
+import { existsSync, readFileSync, statSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import ts from "typescript";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+const SUFFIXES = ["", ".ts", ".tsx", "/index.ts"];
+
+// Map "@/..." and relative specifiers to an existing source file
+export async function resolve(specifier, context, nextResolve) {
+  let base = null;
+  if (specifier.startsWith("@/")) {
+    base = path.join(ROOT, specifier.slice(2));
+  } else if (/^\.\.?\//.test(specifier) && context.parentURL?.startsWith("file:")) {
+    base = fileURLToPath(new URL(specifier, context.parentURL));
+  }
+
+  if (base) {
+    for (const suffix of SUFFIXES) {
+      const file = base + suffix;
+      if (existsSync(file) && statSync(file).isFile()) {
+        return { url: pathToFileURL(file).href, shortCircuit: true };
+      }
+    }
+  }
+  return nextResolve(specifier, context);
+}
+
+// Strip the types from .ts/.tsx files; everything else loads as usual
+export async function load(url, context, nextLoad) {
+  if (!/\.tsx?$/.test(url)) return nextLoad(url, context);
+
+  const fileName = fileURLToPath(url);
+  const { outputText } = ts.transpileModule(readFileSync(fileName, "utf8"), {
+    fileName,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+      jsx: ts.JsxEmit.ReactJSX,
+    },
+  });
+  return { format: "module", source: outputText, shortCircuit: true };
+}
@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+import { register } from "node:module";
+
+register("./ts_loader.mjs", import.meta.url);
+await import("../cli/weighted_dice.ts");
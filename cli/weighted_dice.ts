@@ -0,0 +1,225 @@
+import { dimensionsFromWeights, isSamplerKind, moments, SAMPLER_KINDS, simulateRolls } from "@/lib/die";
+import { DIE_TYPES, faceCountOf, type DieType } from "@/lib/geometry";
+import { defaultSampleStep, evaluateModel, type ModelSpec } from "@/lib/model_request";
+import { createRandom, randomSeed } from "@/lib/random";
+import { chiSquaredTest, confidenceIntervals } from "@/lib/stats";
+import type { BubbleConfig } from "@/types/bubble";
+
+type Options = Record<string, string>;
+
+const USAGE = `Usage: weighted-dice <command> [options]
+
+Commands:
+  simulate   Roll the die and print counts, frequencies and statistics
+  probs      Print the theoretical face probabilities only
+  invert     Cuboid dimensions whose face areas give --weights (d6)
+
+Model options (simulate, probs):
+  --die <type>          ${DIE_TYPES.join(", ")} (default d6)
+  --weights <list>      Face weights, e.g. 1,1,1,1,1,2 (default fair)
+  --dims <lx,ly,lz>     Weights from cuboid dimensions instead (d6)
+  --exponent <number>   Area exponent for --dims and invert (default 1)
+  --bubble <spec>       Air bubble, e.g. r=0.1,x=0.2,y=0,z=0
+  --k <number>          Bubble constant (default from the die size)
+  --values <list>       Outcome value of each face (default 1..d)
+
+Simulation options:
+  --n <number>          Number of rolls, e.g. 1e6 (default 10000)
+  --seed <text>         Seed for a reproducible run (default random)
+  --sampler <kind>      ${SAMPLER_KINDS.join(", ")} (default alias)
+  --sample-step <n>     Rolls between running-mean points (default n/1000)
+
+Output:
+  --format <kind>       json or table (default table)
+`;
+
+// Split "--key value", "--key=value" and bare "--flag" arguments after the command
+function parseArgs(argv: string[]): { command: string | undefined; options: Options } {
+  const [command, ...rest] = argv;
+  const options: Options = {};
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith("--")) throw new Error(`Unexpected argument "${arg}".`);
+
+    const eq = arg.indexOf("=");
+    if (eq > 0) {
+      options[arg.slice(2, eq)] = arg.slice(eq + 1);
+    } else if (i + 1 < rest.length && !rest[i + 1].startsWith("--")) {
+      options[arg.slice(2)] = rest[++i];
+    } else {
+      options[arg.slice(2)] = "true";
+    }
+  }
+  return { command, options };
+}
+
+function parseNumber(text: string, name: string): number {
+  const value = Number(text);
+  if (text.trim() === "" || !Number.isFinite(value)) throw new Error(`--${name} must be a number.`);
+  return value;
+}
+
+function parseList(text: string, name: string): number[] {
+  return text.split(",").map((part) => parseNumber(part, name));
+}
+
+// "r=0.1,x=0.2" into an enabled bubble; unspecified coordinates are 0
+function parseBubble(text: string): BubbleConfig {
+  const bubble: BubbleConfig = { enabled: true, offset: { x: 0, y: 0, z: 0 }, radius: 0.1 };
+  for (const part of text.split(",")) {
+    const [key, value] = part.split("=");
+    if (value === undefined) throw new Error(`--bubble entries must look like key=value, got "${part}".`);
+    const v = parseNumber(value, "bubble");
+    if (key === "r" || key === "radius") bubble.radius = v;
+    else if (key === "x" || key === "y" || key === "z") bubble.offset[key] = v;
+    else throw new Error(`Unknown --bubble key "${key}" (use r, x, y, z).`);
+  }
+  if (bubble.radius < 0) throw new Error("The bubble radius must be >= 0.");
+  return bubble;
+}
+
+// Model options as a ModelSpec
+function specFromOptions(options: Options): ModelSpec {
+  const dieType = (options.die ?? "d6") as DieType;
+  if (!DIE_TYPES.includes(dieType)) throw new Error(`--die must be one of ${DIE_TYPES.join(", ")}.`);
+  const faceCount = faceCountOf(dieType);
+
+  if (options.weights && options.dims) throw new Error("Use either --weights or --dims, not both.");
+  const spec: ModelSpec = {
+    dieType,
+    exponent: options.exponent ? parseNumber(options.exponent, "exponent") : 1,
+    bubble: options.bubble ? parseBubble(options.bubble) : null,
+  };
+
+  if (options.dims) {
+    const [lx, ly, lz] = parseList(options.dims, "dims");
+    if (!(lx > 0 && ly > 0 && lz > 0) || options.dims.split(",").length !== 3) {
+      throw new Error("--dims must be three positive numbers lx,ly,lz.");
+    }
+    spec.dimensions = { lx, ly, lz };
+  }
+  if (options.weights) {
+    spec.weights = parseList(options.weights, "weights");
+    if (spec.weights.length !== faceCount) throw new Error(`--weights must have ${faceCount} entries for a ${dieType}.`);
+    if (spec.weights.some((w) => w < 0)) throw new Error("--weights must be >= 0.");
+  }
+  if (options.k) spec.k = parseNumber(options.k, "k");
+  if (options.values) {
+    spec.values = parseList(options.values, "values");
+    if (spec.values.length !== faceCount) throw new Error(`--values must have ${faceCount} entries.`);
+  }
+  return spec;
+}
+
+// Plain-text table with right-aligned columns
+function formatTable(header: string[], rows: (string | number)[][]): string {
+  const cells = [header, ...rows.map((row) => row.map(String))];
+  const widths = header.map((_, c) => Math.max(...cells.map((row) => row[c].length)));
+  return cells.map((row) => row.map((cell, c) => cell.padStart(widths[c])).join("  ")).join("\n");
+}
+
+function fixed(x: number, digits = 6): string {
+  return x.toFixed(digits);
+}
+
+function runProbs(options: Options, format: string): string {
+  const spec = specFromOptions(options);
+  const model = evaluateModel(spec);
+  const { probs } = model;
+  const theoretical = moments(probs, model.values);
+
+  if (format === "json") {
+    return JSON.stringify({ spec, ...model, moments: theoretical }, null, 2);
+  }
+  const table = formatTable(
+    ["face", "value", "weight", "prob"],
+    probs.map((p, i) => [i + 1, model.values[i], fixed(model.weights[i]), fixed(p)])
+  );
+  return `${table}\n\nE[X] = ${fixed(theoretical.mean)}   Var[X] = ${fixed(theoretical.variance)}`;
+}
+
+function runSimulate(options: Options, format: string): string {
+  const spec = specFromOptions(options);
+  const model = evaluateModel(spec);
+  const n = options.n ? parseNumber(options.n, "n") : 10000;
+  if (n < 1) throw new Error("--n must be >= 1.");
+  const seed = options.seed ?? String(randomSeed());
+  const sampler = options.sampler ?? "alias";
+  if (!isSamplerKind(sampler)) throw new Error(`--sampler must be one of ${SAMPLER_KINDS.join(", ")}.`);
+  const sampleStep = options["sample-step"]
+    ? parseNumber(options["sample-step"], "sample-step")
+    : defaultSampleStep(n);
+
+  const result = simulateRolls(model.weights, n, sampleStep, createRandom(seed), sampler, model.values);
+  const theoretical = moments(result.probs, model.values);
+  const empirical = moments(result.relFreq, model.values);
+  const chiSquared = chiSquaredTest(result.counts, result.probs);
+  const intervals = confidenceIntervals(result.counts, 0.05, "wilson");
+
+  if (format === "json") {
+    return JSON.stringify(
+      { spec, ...model, n: Math.floor(n), seed, ...result, moments: { theoretical, empirical }, chiSquared, intervals },
+      null,
+      2
+    );
+  }
+
+  const table = formatTable(
+    ["face", "value", "prob", "count", "relFreq", "95% lower", "95% upper"],
+    result.counts.map((c, i) => [
+      i + 1,
+      model.values[i],
+      fixed(result.probs[i]),
+      c,
+      fixed(result.relFreq[i]),
+      fixed(intervals[i].lower),
+      fixed(intervals[i].upper),
+    ])
+  );
+  return [
+    `${Math.floor(n).toLocaleString("en-US")} rolls of a ${spec.dieType}, seed ${seed}, ${sampler} sampler`,
+    "",
+    table,
+    "",
+    `E[X]   theoretical ${fixed(theoretical.mean)}   empirical ${fixed(empirical.mean)}`,
+    `Var[X] theoretical ${fixed(theoretical.variance)}   empirical ${fixed(empirical.variance)}`,
+    `chi-squared ${fixed(chiSquared.statistic, 3)} on ${chiSquared.df} df, p = ${fixed(chiSquared.pValue, 4)}`,
+  ].join("\n");
+}
+
+function runInvert(options: Options, format: string): string {
+  if (!options.weights) throw new Error("invert needs --weights.");
+  const weights = parseList(options.weights, "weights");
+  const exponent = options.exponent ? parseNumber(options.exponent, "exponent") : 1;
+  const dims = dimensionsFromWeights(weights, exponent);
+
+  if (format === "json") return JSON.stringify({ weights, exponent, dims }, null, 2);
+  return formatTable(["lx", "ly", "lz"], [[fixed(dims.lx), fixed(dims.ly), fixed(dims.lz)]]);
+}
+
+function main(argv: string[]): number {
+  try {
+    const { command, options } = parseArgs(argv);
+    if (!command || command === "help" || command === "--help" || options.help) {
+      process.stdout.write(USAGE);
+      return command ? 0 : 1;
+    }
+
+    // Own keys only, so names such as "toString" are unknown commands
+    const commands = { simulate: runSimulate, probs: runProbs, invert: runInvert };
+    if (!Object.hasOwn(commands, command)) throw new Error(`Unknown command "${command}".\n\n${USAGE}`);
+    const run = commands[command as keyof typeof commands];
+
+    const format = options.format ?? "table";
+    if (format !== "json" && format !== "table") throw new Error("--format must be json or table.");
+
+    process.stdout.write(`${run(options, format)}\n`);
+    return 0;
+  } catch (e) {
+    process.stderr.write(`weighted-dice: ${e instanceof Error ? e.message : String(e)}\n`);
+    return 1;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,167 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { fitShapeAndBubble, type FittedParameter } from "@/lib/calibration";
+import { defaultBubbleK } from "@/lib/die";
+import type { DieDims, DieType } from "@/lib/geometry";
+import type { Inclusion } from "@/types/bubble";
+import type { ScenarioMode } from "@/types/scenario";
+
+// Parse "12, 15, 9" into counts; null if any entry is invalid
+function parseCounts(text: string): number[] | null {
+  const parts = text.split(/[\s,;]+/).filter(Boolean);
+  const counts = parts.map(Number);
+  return counts.every((c) => Number.isFinite(c) && c >= 0) ? counts : null;
+}
+
+// "1.234 ± 0.056", or why the parameter was not estimated
+function formatEstimate(p: FittedParameter): string {
+  if (!p.fitted) return `${p.value.toFixed(3)} (not identifiable)`;
+  return p.standardError === null
+    ? p.value.toFixed(3)
+    : `${p.value.toFixed(3)} ± ${p.standardError.toFixed(3)}`;
+}
+
+export function CalibrationPanel({
+  counts,
+  faceCount,
+  dieType,
+  dims,
+  inclusions,
+  exponent,
+  bubbleK,
+  mode,
+  onApply,
+  onReset,
+}: {
+  counts: number[] | null;
+  faceCount: number;
+  dieType: DieType;
+  dims: DieDims;
+  inclusions: Inclusion[];
+  exponent: number;
+  bubbleK: number | null;
+  mode: ScenarioMode;
+  onApply: (exponent: number, k: number | null) => void;
+  onReset: () => void;
+}) {
+  const [observed, setObserved] = useState(() => Array(faceCount).fill(0).join(", "));
+
+  const parsed = useMemo(() => parseCounts(observed), [observed]);
+  const liveK = bubbleK ?? defaultBubbleK(dims, dieType);
+
+  const fit = useMemo(() => {
+    if (!parsed || parsed.length !== faceCount || parsed.every((c) => c === 0)) {
+      return { result: null, error: null };
+    }
+    try {
+      return {
+        result: fitShapeAndBubble(parsed, dims, inclusions, dieType, { gamma: exponent, k: liveK }),
+        error: null,
+      };
+    } catch (e) {
+      return { result: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [parsed, faceCount, dims, inclusions, dieType, exponent, liveK]);
+
+  const result = fit.result;
+
+  return (
+    <section className="w-full max-w-5xl flex flex-col gap-4 border rounded-lg p-4">
+      <h2 className="font-semibold uppercase text-sm">
+        Model calibration (maximum likelihood)
+      </h2>
+
+      <label className="flex flex-col gap-1 text-sm">
+        <span className="text-xs uppercase font-semibold">Observed counts per face</span>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={observed}
+            onChange={(e) => setObserved(e.target.value)}
+            className="border px-2 py-1 rounded w-full"
+          />
+          <button
+            onClick={() => counts && setObserved(counts.join(", "))}
+            disabled={!counts || counts.length !== faceCount}
+            className="border rounded px-2 py-1 text-xs whitespace-nowrap cursor-pointer hover:bg-white/10 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            Use last results
+          </button>
+        </div>
+        {(!parsed || parsed.length !== faceCount) && (
+          <span className="text-xs text-red-600">
+            Enter {faceCount} non-negative counts separated by commas.
+          </span>
+        )}
+      </label>
+
+      <p className="text-[11px] text-slate-500">
+        Fits the area exponent &gamma; and the bubble constant k of p&#x1D62; &prop;
+        area&#x1D62;<sup>&gamma;</sup> &middot; e<sup>&minus;k&lang;&Delta;, n&#x1D62;&rang;</sup> for the
+        current dimensions and inclusions. &gamma; needs faces of different areas and k needs an
+        off-centre centre of mass; otherwise the parameter is kept at its live value.
+      </p>
+
+      <div className="grid grid-cols-2 gap-1 text-xs">
+        <span>Live &gamma;</span>
+        <span className="text-right">{exponent.toFixed(3)}</span>
+        <span>Live k</span>
+        <span className="text-right">
+          {liveK.toFixed(3)}
+          {bubbleK === null && " (default)"}
+        </span>
+      </div>
+
+      {fit.error && <div className="text-red-600 text-sm">ERROR: {fit.error}</div>}
+
+      {result && (
+        <div className="flex flex-col gap-3 text-xs">
+          <div className="grid grid-cols-2 gap-1">
+            <span>&gamma; (area exponent)</span>
+            <span className="text-right">{formatEstimate(result.gamma)}</span>
+            <span>k (bubble constant)</span>
+            <span className="text-right">{formatEstimate(result.k)}</span>
+            <span>Log-likelihood</span>
+            <span className="text-right">{result.logLikelihood.toFixed(3)}</span>
+            <span>Newton iterations</span>
+            <span className="text-right">
+              {result.iterations}
+              {!result.converged && " (not converged)"}
+            </span>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() =>
+                onApply(result.gamma.value, result.k.fitted ? result.k.value : bubbleK)
+              }
+              disabled={!result.converged || (!result.gamma.fitted && !result.k.fitted)}
+              className="border rounded px-3 py-1 uppercase cursor-pointer hover:bg-white/10 disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              Apply fitted values
+            </button>
+            <button
+              onClick={onReset}
+              className="border rounded px-3 py-1 uppercase cursor-pointer hover:bg-white/10"
+            >
+              Reset to defaults
+            </button>
+          </div>
+
+          {!result.converged && (
+            <p className="text-amber-500">
+              The fit did not converge, so its values cannot be applied. A face with a zero count often
+              pushes &gamma; or k without bound; collect more rolls and fit again.
+            </p>
+          )}
+          {mode === "weights" && (
+            <p className="text-amber-500">
+              &gamma; only changes the model in dimension mode; in weights mode only k takes effect.
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
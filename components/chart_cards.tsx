@@ -0,0 +1,245 @@
+"use client";
+
+import { useRef, useState, type RefObject } from "react";
+import { Bar, BarChart, CartesianGrid, ErrorBar, XAxis, YAxis, LabelList, Line, LineChart } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { downloadChartPng, downloadChartSvg, slugify, type LegendItem } from "@/lib/download";
+
+// One plotted series: a data key (also the chart config key) and how to draw it
+export type ChartSeries = { key: string; errorKey?: string; dashed?: boolean };
+
+type ChartRow<K extends string> = { [key in K]: string | number } & {
+  [key: string]: string | number | number[] | undefined;
+};
+
+const DEFAULT_PROB_SERIES: ChartSeries[] = [
+  { key: "theoretical" },
+  { key: "sample", errorKey: "sampleError" },
+];
+
+const DEFAULT_MEAN_SERIES: ChartSeries[] = [{ key: "mean" }];
+
+const DEFAULT_CDF_SERIES: ChartSeries[] = [
+  { key: "theoreticalCdf", dashed: true },
+  { key: "empiricalCdf" },
+];
+
+// Legend entries of the plotted series, for exported images (the on-screen legend is HTML)
+function legendOf(config: ChartConfig, keys: string[]): LegendItem[] {
+  return keys.flatMap((key) => {
+    const entry = config[key];
+    if (!entry?.color) return [];
+    return [{ label: typeof entry.label === "string" ? entry.label : key, color: entry.color }];
+  });
+}
+
+// Card title with SVG and PNG download buttons for the chart below it
+function ChartHeader({
+  title,
+  chartRef,
+  legend,
+}: {
+  title: string;
+  chartRef: RefObject<HTMLDivElement | null>;
+  legend: LegendItem[];
+}) {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async (format: "svg" | "png") => {
+    if (!chartRef.current) return;
+    try {
+      setError(null);
+      if (format === "svg") downloadChartSvg(chartRef.current, slugify(title), legend);
+      else await downloadChartPng(chartRef.current, slugify(title), legend);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not export the chart.");
+    }
+  };
+
+  return (
+    <CardHeader className="flex flex-row items-center justify-between gap-2">
+      <CardTitle>{title}</CardTitle>
+      <div className="flex items-center gap-1 text-xs">
+        {error && <span className="text-red-600">{error}</span>}
+        {(["svg", "png"] as const).map((format) => (
+          <button
+            key={format}
+            onClick={() => handleDownload(format)}
+            className="border rounded px-2 py-1 uppercase cursor-pointer hover:bg-white/10"
+          >
+            {format}
+          </button>
+        ))}
+      </div>
+    </CardHeader>
+  );
+}
+
+export function ProbabilitiesCard({
+  probData,
+  probConfig,
+  title = "Theoretical vs. Empirical Probabilities",
+  formatCategory = (v) => `Face ${v}`,
+  showLabels = true,
+  series = DEFAULT_PROB_SERIES,
+}: {
+  probData: ChartRow<"face">[];
+  probConfig: ChartConfig;
+  title?: string;
+  formatCategory?: (value: string | number) => string;
+  showLabels?: boolean;
+  series?: ChartSeries[];
+}) {
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  return (
+    <Card className="mb-4">
+      <ChartHeader title={title} chartRef={chartRef} legend={legendOf(probConfig, series.map((s) => s.key))} />
+      <CardContent ref={chartRef}>
+        <ChartContainer config={probConfig} className="h-72 w-full mb-4">
+          <BarChart data={probData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="face" tickFormatter={formatCategory} />
+            <YAxis
+              tickFormatter={(v) => v.toFixed(2)}
+              domain={[0, (dataMax: number) => dataMax * 1.25]}
+            />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+
+            {series.map(({ key, errorKey }) => (
+              <Bar key={key} dataKey={key} fill={`var(--color-${key})`} radius={[4, 4, 0, 0]}>
+                {errorKey && (
+                  <ErrorBar dataKey={errorKey} width={6} strokeWidth={1.5} stroke="currentColor" />
+                )}
+                {showLabels && (
+                  <LabelList
+                    dataKey={key}
+                    formatter={(v: number) => v.toFixed(3)}
+                    position="top"
+                  />
+                )}
+              </Bar>
+            ))}
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function MeanConvergenceCard({
+  meanData,
+  meanChartConfig,
+  theoMean,
+  series = DEFAULT_MEAN_SERIES,
+}: {
+  meanData: ChartRow<"n">[];
+  meanChartConfig: ChartConfig;
+  theoMean?: number; // Drawn as the "theo" reference line when given
+  series?: ChartSeries[];
+}) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const legendKeys = [...(theoMean !== undefined ? ["theo"] : []), ...series.map((s) => s.key)];
+
+  return (
+    <Card className="mb-4">
+      <ChartHeader
+        title="Convergence of the Empirical Mean (LLN)"
+        chartRef={chartRef}
+        legend={legendOf(meanChartConfig, legendKeys)}
+      />
+      <CardContent ref={chartRef}>
+        <ChartContainer config={meanChartConfig} className="h-72 w-full mb-4">
+          <LineChart data={meanData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="n" tickFormatter={(v) => `${v}`} />
+            <YAxis tickFormatter={(v) => v.toFixed(2)} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+
+            {theoMean !== undefined && (
+              <Line
+                type="monotone"
+                dataKey={() => theoMean}
+                stroke="var(--color-theo)"
+                strokeWidth={2}
+                strokeDasharray="4 4"
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+
+            {series.map(({ key, dashed }) => (
+              <Line
+                key={key}
+                type="monotone"
+                dataKey={key}
+                stroke={`var(--color-${key})`}
+                strokeWidth={2}
+                strokeDasharray={dashed ? "4 4" : undefined}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function CdfCard({
+  cdfData,
+  cdfChartConfig,
+  title = "Theoretical vs. Empirical CDF",
+  formatValue = (v) => `x = ${v}`,
+  series = DEFAULT_CDF_SERIES,
+}: {
+  cdfData: ChartRow<"value">[];
+  cdfChartConfig: ChartConfig;
+  title?: string;
+  formatValue?: (value: number) => string;
+  series?: ChartSeries[];
+}) {
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  return (
+    <Card className="mb-4">
+      <ChartHeader title={title} chartRef={chartRef} legend={legendOf(cdfChartConfig, series.map((s) => s.key))} />
+      <CardContent ref={chartRef}>
+        <ChartContainer config={cdfChartConfig} className="h-72 w-full mb-4">
+          <LineChart data={cdfData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="value" tickFormatter={formatValue} />
+            <YAxis domain={[0, 1]} tickFormatter={(v) => v.toFixed(2)} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+
+            {series.map(({ key, dashed }) => (
+              <Line
+                key={key}
+                type="stepAfter"
+                dataKey={key}
+                stroke={`var(--color-${key})`}
+                strokeWidth={2}
+                strokeDasharray={dashed ? "4 4" : undefined}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { chiSquaredTest } from "@/lib/stats";
+
+const DEFAULT_ALPHA = 0.05;
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+}
+
+// Format small p-values in exponent notation
+function formatP(p: number): string {
+  if (p === 0) return "0";
+  return p < 1e-4 ? p.toExponential(2) : p.toFixed(4);
+}
+
+export function ChiSquaredCard({
+  counts,
+  probs,
+}: {
+  counts: number[];
+  probs: number[];
+}) {
+  const [alpha, setAlpha] = useState(DEFAULT_ALPHA);
+
+  const test = useMemo(() => {
+    try {
+      return chiSquaredTest(counts, probs);
+    } catch {
+      return null;
+    }
+  }, [counts, probs]);
+
+  const validAlpha = Number.isFinite(alpha) && alpha > 0 && alpha < 1;
+  const rejected = test && validAlpha ? test.pValue < alpha : null;
+
+  // Pearson's rule of thumb: every expected count should be at least 5
+  const lowExpected = test ? test.expected.some((e) => e > 0 && e < 5) : false;
+
+  return (
+    <Card className="gap-3 py-4">
+      <CardHeader className="px-4">
+        <CardTitle>Chi-squared Goodness-of-Fit</CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 flex flex-col gap-2 text-sm">
+        <label className="flex items-center justify-between gap-2">
+          <span>Significance level (&alpha;)</span>
+          <input
+            type="number"
+            min={0.0001}
+            max={0.5}
+            step={0.01}
+            value={alpha}
+            onChange={(e) => setAlpha(Number(e.target.value))}
+            className="border px-2 py-1 rounded w-24"
+          />
+        </label>
+
+        {test ? (
+          <>
+            <Row label="Statistic (&chi;&sup2;)" value={test.statistic.toFixed(4)} />
+            <Row label="Degrees of freedom" value={String(test.df)} />
+            <Row label="p-value" value={formatP(test.pValue)} />
+            <Row label="Critical region" value={validAlpha ? `p < ${alpha}` : "-"} />
+
+            {rejected !== null && (
+              <p className={rejected ? "text-red-400" : "text-green-400"}>
+                {rejected
+                  ? "Reject H₀: the counts are not consistent with the model."
+                  : "Cannot reject H₀: the counts are consistent with the model."}
+              </p>
+            )}
+
+            {lowExpected && (
+              <p className="text-[11px] text-slate-500">
+                Some expected counts are below 5; the chi-squared approximation may be poor.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-slate-500">Not enough data for the test.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,378 @@
+"use client";
+
+import { Fragment, useMemo, useState } from "react";
+import { CdfCard, MeanConvergenceCard, ProbabilitiesCard, type ChartSeries } from "@/components/chart_cards";
+import type { ChartConfig } from "@/components/ui/chart";
+import {
+  comparisonCdfData,
+  comparisonKeys,
+  comparisonMeanData,
+  comparisonProbData,
+  pairwiseDistances,
+  type ComparisonEntry,
+} from "@/lib/comparison";
+import { normalizeWeights, type SamplerKind } from "@/lib/die";
+import { defaultSampleStep } from "@/lib/model_request";
+import { randomSeed } from "@/lib/random";
+import { DISTANCE_LABELS, type DistanceKind } from "@/lib/stats";
+import type { FaceSpec } from "@/types/face";
+import type { Scenario } from "@/types/scenario";
+import { useSimulationWorker } from "@/hooks/use_simulation_worker";
+
+// Hue per entry, in the order they were added
+const ENTRY_HUES = [220, 14, 150, 280, 45, 330, 190, 95];
+
+type Basis = "theoretical" | "empirical";
+
+export function ComparisonPanel({
+  currentWeights,
+  faces,
+  scenario,
+  sampler,
+  onLoad,
+}: {
+  currentWeights: number[];
+  faces: FaceSpec[];
+  scenario: Scenario;
+  sampler: SamplerKind;
+  onLoad: (scenario: Scenario) => void;
+}) {
+  const [entries, setEntries] = useState<ComparisonEntry[]>([]);
+  const [nextId, setNextId] = useState(1);
+  const [name, setName] = useState("");
+  const [nRolls, setNRolls] = useState(10000);
+  const [seed, setSeed] = useState("");
+  const [basis, setBasis] = useState<Basis>("theoretical");
+  const [distance, setDistance] = useState<DistanceKind>("kl");
+  const [error, setError] = useState<string | null>(null);
+  const simulation = useSimulationWorker();
+
+  const allSimulated = entries.length > 0 && entries.every((e) => e.result);
+  const effectiveBasis: Basis = allSimulated ? basis : "theoretical";
+
+  const handleAdd = () => {
+    if (entries.length > 0 && entries[0].faces.length !== faces.length) {
+      setError(`Only configurations with ${entries[0].faces.length} faces can be compared with the current ones.`);
+      return;
+    }
+    setError(null);
+    setEntries((prev) => [
+      ...prev,
+      {
+        id: nextId,
+        name: name.trim() || `Configuration ${nextId}`,
+        weights: currentWeights,
+        faces,
+        scenario: { ...scenario, results: undefined },
+        result: null,
+      },
+    ]);
+    setNextId((id) => id + 1);
+    setName("");
+  };
+
+  const handleRemove = (id: number) => {
+    setEntries((prev) => prev.filter((e) => e.id !== id));
+  };
+
+  const handleRename = (id: number, newName: string) => {
+    setEntries((prev) => prev.map((e) => (e.id === id ? { ...e, name: newName } : e)));
+  };
+
+  // Roll every entry with the same seed, so the differences are not sampling noise
+  const handleSimulateAll = async () => {
+    try {
+      setError(null);
+      const runSeed = seed.trim() === "" ? String(randomSeed()) : seed.trim();
+
+      for (const entry of entries) {
+        const result = await simulation.run({
+          weights: entry.weights,
+          n: nRolls,
+          seed: runSeed,
+          sampler,
+          sampleStep: defaultSampleStep(nRolls),
+          values: entry.faces.map((f) => f.value),
+        });
+        if (!result) return;
+        setEntries((prev) => prev.map((e) => (e.id === entry.id ? { ...e, result } : e)));
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An unexpected error occurred during the simulation.");
+    }
+  };
+
+  // Chart configs and series: solid for empirical, dashed or darker for theoretical
+  const charts = useMemo(() => {
+    const probConfig: ChartConfig = {};
+    const cdfConfig: ChartConfig = {};
+    const meanConfig: ChartConfig = {};
+    const probSeries: ChartSeries[] = [];
+    const cdfSeries: ChartSeries[] = [];
+    const meanSeries: ChartSeries[] = [];
+
+    entries.forEach((entry, i) => {
+      const hue = ENTRY_HUES[i % ENTRY_HUES.length];
+      const dark = `hsl(${hue}, 70%, 42%)`;
+      const light = `hsl(${hue}, 90%, 64%)`;
+      const keys = comparisonKeys(entry.id);
+
+      probConfig[keys.theoretical] = { label: `P(${entry.name})`, color: dark };
+      cdfConfig[keys.theoreticalCdf] = { label: `F(${entry.name})`, color: dark };
+      probSeries.push({ key: keys.theoretical });
+      cdfSeries.push({ key: keys.theoreticalCdf, dashed: true });
+
+      if (entry.result) {
+        probConfig[keys.sample] = { label: `P̂(${entry.name})`, color: light };
+        cdfConfig[keys.empiricalCdf] = { label: `F̂(${entry.name})`, color: light };
+        meanConfig[keys.mean] = { label: `Mean (${entry.name})`, color: light };
+        meanConfig[keys.theo] = { label: `E[X] (${entry.name})`, color: dark };
+        probSeries.push({ key: keys.sample });
+        cdfSeries.push({ key: keys.empiricalCdf });
+        meanSeries.push({ key: keys.theo, dashed: true }, { key: keys.mean });
+      }
+    });
+
+    return { probConfig, cdfConfig, meanConfig, probSeries, cdfSeries, meanSeries };
+  }, [entries]);
+
+  const probData = useMemo(() => comparisonProbData(entries), [entries]);
+  const cdfData = useMemo(() => comparisonCdfData(entries), [entries]);
+  const meanData = useMemo(() => comparisonMeanData(entries), [entries]);
+
+  const distributions = useMemo(
+    () =>
+      entries.map((e) =>
+        effectiveBasis === "empirical" && e.result ? e.result.relFreq : normalizeWeights(e.weights)
+      ),
+    [entries, effectiveBasis]
+  );
+
+  const distances = useMemo(
+    () => (entries.length > 1 ? pairwiseDistances(distributions, distance) : null),
+    [entries.length, distributions, distance]
+  );
+
+  const baseline = distributions[0];
+
+  return (
+    <section className="w-full max-w-5xl flex flex-col gap-4 border rounded-lg p-4">
+      <h2 className="font-semibold uppercase text-sm">Comparison workspace</h2>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={`Configuration ${nextId}`}
+          className="border px-2 py-1 rounded flex-1 min-w-40"
+        />
+        <button
+          onClick={handleAdd}
+          className="border rounded px-2 py-1 cursor-pointer hover:bg-white/10"
+        >
+          Add current configuration
+        </button>
+      </div>
+
+      {entries.length === 0 && (
+        <p className="text-[11px] text-slate-500">
+          Set up a configuration on the page and add it here under a name; repeat for each variant
+          to compare. Each entry keeps the weights it had when it was added.
+        </p>
+      )}
+
+      <div className="flex flex-col gap-2 text-sm">
+        {entries.map((entry, i) => (
+          <div key={entry.id} className="flex items-center gap-2">
+            <span
+              className="w-3 h-3 rounded-full shrink-0"
+              style={{ background: `hsl(${ENTRY_HUES[i % ENTRY_HUES.length]}, 90%, 64%)` }}
+            />
+            <input
+              type="text"
+              value={entry.name}
+              onChange={(e) => handleRename(entry.id, e.target.value)}
+              className="border px-2 py-1 rounded flex-1"
+            />
+            <span className="text-xs text-slate-400 whitespace-nowrap">
+              {entry.result ? `${entry.result.counts.reduce((a, c) => a + c, 0).toLocaleString()} rolls` : "not rolled"}
+            </span>
+            <button
+              onClick={() => onLoad(entry.scenario)}
+              className="text-xs cursor-pointer text-slate-400 hover:text-slate-200 transition-all"
+            >
+              Load
+            </button>
+            <button
+              onClick={() => handleRemove(entry.id)}
+              className="text-xs cursor-pointer text-slate-400 hover:text-slate-200 transition-all"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {entries.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <label className="flex items-center gap-2">
+              <span className="whitespace-nowrap">Rolls each:</span>
+              <input
+                type="number"
+                min={1}
+                value={nRolls}
+                onChange={(e) => setNRolls(Number(e.target.value))}
+                className="border px-2 py-1 rounded w-full"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="whitespace-nowrap">Shared seed:</span>
+              <input
+                type="text"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                placeholder="random"
+                className="border px-2 py-1 rounded w-full"
+              />
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSimulateAll}
+              disabled={simulation.isRunning}
+              className="px-4 py-2 rounded bg-white text-black text-sm font-bold uppercase cursor-pointer disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {simulation.isRunning ? "Simulating..." : `Simulate all (${entries.length})`}
+            </button>
+            {simulation.isRunning && (
+              <button
+                onClick={simulation.cancel}
+                className="border rounded px-3 py-1 text-xs uppercase cursor-pointer hover:bg-white/10"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      {error && <div className="text-red-600 text-sm">ERROR: {error}</div>}
+
+      {entries.length > 0 && (
+        <div>
+          <ProbabilitiesCard
+            probData={probData}
+            probConfig={charts.probConfig}
+            title="Probabilities by Configuration"
+            showLabels={false}
+            series={charts.probSeries}
+          />
+
+          {charts.meanSeries.length > 0 && (
+            <MeanConvergenceCard
+              meanData={meanData}
+              meanChartConfig={charts.meanConfig}
+              series={charts.meanSeries}
+            />
+          )}
+
+          <CdfCard
+            cdfData={cdfData}
+            cdfChartConfig={charts.cdfConfig}
+            title="CDF by Configuration"
+            series={charts.cdfSeries}
+          />
+        </div>
+      )}
+
+      {entries.length > 1 && (
+        <div className="flex flex-col gap-3 text-xs">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={effectiveBasis}
+              onChange={(e) => setBasis(e.target.value as Basis)}
+              className="border px-2 py-1 rounded bg-transparent"
+            >
+              <option value="theoretical" className="bg-neutral-900">
+                Theoretical probabilities
+              </option>
+              <option value="empirical" disabled={!allSimulated} className="bg-neutral-900">
+                Empirical frequencies
+              </option>
+            </select>
+            <select
+              value={distance}
+              onChange={(e) => setDistance(e.target.value as DistanceKind)}
+              className="border px-2 py-1 rounded bg-transparent"
+            >
+              {(Object.keys(DISTANCE_LABELS) as DistanceKind[]).map((d) => (
+                <option key={d} value={d} className="bg-neutral-900">
+                  {DISTANCE_LABELS[d]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <table className="border-collapse border w-full">
+            <thead>
+              <tr>
+                <th className="border px-2 py-1">Face</th>
+                {entries.map((entry, i) => (
+                  <Fragment key={entry.id}>
+                    <th className="border px-2 py-1">{entry.name}</th>
+                    {i > 0 && <th className="border px-2 py-1">&Delta; vs {entries[0].name}</th>}
+                  </Fragment>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {entries[0].faces.map((face, f) => (
+                <tr key={f}>
+                  <td className="border px-2 py-1 text-center">{face.label}</td>
+                  {distributions.map((p, i) => (
+                    <Fragment key={entries[i].id}>
+                      <td className="border px-2 py-1 text-center">{p[f].toFixed(4)}</td>
+                      {i > 0 && (
+                        <td className="border px-2 py-1 text-center">
+                          {(p[f] - baseline[f] >= 0 ? "+" : "") + (p[f] - baseline[f]).toFixed(4)}
+                        </td>
+                      )}
+                    </Fragment>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {distances && (
+            <table className="border-collapse border w-full">
+              <thead>
+                <tr>
+                  <th className="border px-2 py-1">{distance === "kl" ? "D(row ‖ column)" : "Distance"}</th>
+                  {entries.map((entry) => (
+                    <th key={entry.id} className="border px-2 py-1">{entry.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {distances.map((row, i) => (
+                  <tr key={entries[i].id}>
+                    <td className="border px-2 py-1 text-center font-semibold">{entries[i].name}</td>
+                    {row.map((d, j) => (
+                      <td key={entries[j].id} className="border px-2 py-1 text-center">
+                        {Number.isFinite(d) ? d.toExponential(3) : "∞"}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { CdfCard, ProbabilitiesCard } from "@/components/chart_cards";
+import { useSimulationWorker } from "@/hooks/use_simulation_worker";
+import { DIE_TYPE_LABELS, DIE_TYPES, faceCountOf, type DieType } from "@/lib/geometry";
+import { defaultSampleStep } from "@/lib/model_request";
+import type { PoolDie, PoolSimulationResult } from "@/lib/pool";
+import { randomSeed } from "@/lib/random";
+import type { SamplerKind } from "@/lib/die";
+import type { FaceSpec } from "@/types/face";
+
+// A group of identical dice: the configured die, or a fair die of some type
+type PoolEntry = { source: "current" | DieType; count: number };
+
+const MAX_LABELLED_BARS = 12;
+
+const probConfig = {
+  theoretical: { label: "P(theoretical)", color: "hsl(220, 90%, 56%)" },
+  sample: { label: "P(empirical)", color: "hsl(14, 88%, 62%)" },
+};
+
+const cdfChartConfig = {
+  theoreticalCdf: { label: "F(theoretical)", color: "hsl(220, 90%, 56%)" },
+  empiricalCdf: { label: "F(empirical)", color: "hsl(14, 88%, 62%)" },
+};
+
+// Describe an entry for the pool list
+function entryLabel(entry: PoolEntry): string {
+  return entry.source === "current" ? "Configured die" : `Fair ${entry.source}`;
+}
+
+export function DicePoolPanel({
+  currentWeights,
+  faces,
+  sampler,
+  seed,
+}: {
+  currentWeights: number[];
+  faces: FaceSpec[];
+  sampler: SamplerKind;
+  seed: string;
+}) {
+  const [entries, setEntries] = useState<PoolEntry[]>([
+    { source: "current", count: 1 },
+    { source: "d6", count: 1 },
+  ]);
+  const [fairType, setFairType] = useState<DieType>("d6");
+  const [nRolls, setNRolls] = useState(10000);
+  const [result, setResult] = useState<PoolSimulationResult | null>(null);
+  const [usedSeed, setUsedSeed] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const simulation = useSimulationWorker();
+
+  // Expand entries into one PoolDie per physical die
+  const dice = useMemo<PoolDie[]>(
+    () =>
+      entries.flatMap((entry) => {
+        const die: PoolDie =
+          entry.source === "current"
+            ? { weights: currentWeights, values: faces.map((f) => f.value) }
+            : { weights: Array(faceCountOf(entry.source)).fill(1) };
+        return Array.from({ length: Math.max(0, Math.floor(entry.count)) }, () => die);
+      }),
+    [entries, currentWeights, faces]
+  );
+
+  const handleCountChange = (index: number, count: number) => {
+    setEntries((prev) =>
+      prev.map((e, i) => (i === index ? { ...e, count: Math.max(0, Math.floor(count)) } : e))
+    );
+  };
+
+  const handleRemove = (index: number) => {
+    setEntries((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleAdd = (source: PoolEntry["source"]) => {
+    setEntries((prev) => [...prev, { source, count: 1 }]);
+  };
+
+  const handleSimulate = async () => {
+    try {
+      setError(null);
+
+      // Blank page seed: draw a fresh one so the run can still be replayed
+      const runSeed = seed.trim() === "" ? String(randomSeed()) : seed.trim();
+      const poolResult = await simulation.runPool({
+        dice,
+        n: nRolls,
+        seed: runSeed,
+        sampler,
+        sampleStep: defaultSampleStep(nRolls),
+      });
+      if (!poolResult) return;
+
+      setResult(poolResult);
+      setUsedSeed(runSeed);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An unexpected error occurred during the simulation.");
+    }
+  };
+
+  const progress = simulation.progress;
+
+  const probData = useMemo(() => {
+    if (!result) return [];
+    return result.values.map((v, i) => ({
+      face: v,
+      theoretical: Number(result.probs[i].toFixed(4)),
+      sample: Number(result.relFreq[i].toFixed(4)),
+    }));
+  }, [result]);
+
+  const cdfData = useMemo(() => {
+    if (!result) return [];
+    let cumTheoretical = 0;
+    let cumEmpirical = 0;
+
+    return result.values.map((value, i) => {
+      cumTheoretical += result.probs[i];
+      cumEmpirical += result.relFreq[i];
+      return {
+        value,
+        theoreticalCdf: Number(cumTheoretical.toFixed(4)),
+        empiricalCdf: Number(cumEmpirical.toFixed(4)),
+      };
+    });
+  }, [result]);
+
+  return (
+    <section className="w-full max-w-5xl flex flex-col gap-4 border rounded-lg p-4">
+      <h2 className="font-semibold uppercase text-sm">Dice pool (sum of N dice)</h2>
+
+      <div className="flex flex-col gap-2 text-sm">
+        {entries.map((entry, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={entry.count}
+              onChange={(e) => handleCountChange(i, Number(e.target.value))}
+              className="border px-2 py-1 rounded w-20"
+            />
+            <span className="flex-1">&times; {entryLabel(entry)}</span>
+            <button
+              onClick={() => handleRemove(i)}
+              className="text-xs cursor-pointer text-slate-400 hover:text-slate-200 transition-all"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <button
+          onClick={() => handleAdd("current")}
+          className="border rounded px-2 py-1 cursor-pointer hover:bg-white/10"
+        >
+          + Configured die
+        </button>
+
+        <select
+          value={fairType}
+          onChange={(e) => setFairType(e.target.value as DieType)}
+          className="border px-2 py-1 rounded bg-transparent"
+        >
+          {DIE_TYPES.map((type) => (
+            <option key={type} value={type} className="bg-neutral-900">
+              {DIE_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => handleAdd(fairType)}
+          className="border rounded px-2 py-1 cursor-pointer hover:bg-white/10"
+        >
+          + Fair die
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <span className="w-40 whitespace-nowrap">Number of Rolls:</span>
+        <input
+          type="number"
+          min={1}
+          value={nRolls}
+          onChange={(e) => setNRolls(Number(e.target.value))}
+          className="border px-2 py-1 rounded w-full"
+        />
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSimulate}
+          disabled={simulation.isRunning || dice.length === 0}
+          className="px-4 py-2 rounded bg-white text-black text-sm font-bold uppercase cursor-pointer disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {simulation.isRunning ? "Simulating..." : `Simulate pool (${dice.length} dice)`}
+        </button>
+        {simulation.isRunning && (
+          <button
+            onClick={simulation.cancel}
+            className="border rounded px-3 py-1 text-xs uppercase cursor-pointer hover:bg-white/10"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {progress && (
+        <div className="flex items-center gap-2 text-xs">
+          <div className="flex-1 h-2 rounded bg-white/10 overflow-hidden">
+            <div
+              className="h-full bg-white transition-all"
+              style={{ width: `${progress.n > 0 ? (100 * progress.rolled) / progress.n : 0}%` }}
+            />
+          </div>
+          <span>
+            {progress.rolled.toLocaleString()} / {progress.n.toLocaleString()}
+          </span>
+        </div>
+      )}
+
+      {error && <div className="text-red-600 text-sm">ERROR: {error}</div>}
+
+      {result && (
+        <div>
+          {usedSeed !== null && <p className="text-xs text-slate-400 mb-2">Seed: {usedSeed}</p>}
+          <ProbabilitiesCard
+            probData={probData}
+            probConfig={probConfig}
+            title="Distribution of the Sum"
+            formatCategory={(v) => `${v}`}
+            showLabels={probData.length <= MAX_LABELLED_BARS}
+          />
+          <CdfCard
+            cdfData={cdfData}
+            cdfChartConfig={cdfChartConfig}
+            title="CDF of the Sum"
+            formatValue={(v) => `${v}`}
+          />
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,28 +1,130 @@
 "use client";
 
-import { useRef, useMemo } from "react";
+import { useRef, useMemo, useState } from "react";
 import * as THREE from "three";
 import { Canvas, useFrame } from "@react-three/fiber";
 import { OrbitControls, RoundedBox, Text, Sphere } from "@react-three/drei";
-import { BubbleConfig } from "@/types/bubble";
+import { BubbleConfig, type Inclusion } from "@/types/bubble";
+import { rollWeightedDie } from "@/lib/die";
+import { inclusionVolume } from "@/lib/inclusions";
+import { edgeRadius, faceCountOf, getDieGeometry, type DieGeometry, type DieType } from "@/lib/geometry";
+import { currentStreak, lastNFrequencies, longestStreak } from "@/lib/roll_history";
+
+// A single animated roll; id changes on every roll so repeated faces animate too
+type DieRoll = { id: number; face: number; dieType: DieType };
+
+// In-flight tumble towards the rolled face
+type RollAnimation = {
+  t: number;                 // Progress in [0, 1]
+  from: THREE.Quaternion;
+  target: THREE.Quaternion;
+  axis: THREE.Vector3;
+  turns: number;             // Total tumble angle (rad)
+};
+
+const ROLL_DURATION = 1.4; // Seconds
+const HISTORY_STRIP_LENGTH = 40;
+
+// Start a tumble that ends with the given face normal pointing up, at a random heading
+function startRollAnimation(from: THREE.Quaternion, normal: { x: number; y: number; z: number }): RollAnimation {
+  const up = new THREE.Vector3(0, 1, 0);
+  const align = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(normal.x, normal.y, normal.z), up);
+  const heading = new THREE.Quaternion().setFromAxisAngle(up, Math.random() * 2 * Math.PI);
+
+  return {
+    t: 0,
+    from: from.clone(),
+    target: heading.multiply(align),
+    axis: new THREE.Vector3(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5).normalize(),
+    turns: 4 * Math.PI + Math.random() * 2 * Math.PI,
+  };
+}
+
+// Voids render as glassy bubbles, dense inserts as metal
+function InclusionMesh({ inclusion }: { inclusion: Inclusion }) {
+  const { shape, offset, radius, halfExtents, height, axis, density } = inclusion;
+  if (inclusionVolume(inclusion) <= 0) return null;
+
+  const position: [number, number, number] = [offset.x, offset.y, offset.z];
+  const material =
+    density < 1 ? (
+      <meshPhysicalMaterial
+        color="#66aaff"
+        transmission={0.8}
+        opacity={0.5 + 0.3 * density}
+        transparent
+        roughness={1}
+        ior={1}
+        thickness={0.5}
+      />
+    ) : (
+      <meshStandardMaterial color="#8a8f98" metalness={0.8} roughness={0.35} />
+    );
+
+  // three.js cylinders run along Y; turn them onto their axis
+  const rotation: [number, number, number] =
+    shape !== "cylinder" || axis === "y"
+      ? [0, 0, 0]
+      : axis === "x"
+        ? [0, 0, Math.PI / 2]
+        : [Math.PI / 2, 0, 0];
+
+  return (
+    <mesh position={position} rotation={rotation}>
+      {shape === "sphere" && <sphereGeometry args={[radius, 16, 16]} />}
+      {shape === "box" && <boxGeometry args={[2 * halfExtents.x, 2 * halfExtents.y, 2 * halfExtents.z]} />}
+      {shape === "cylinder" && <cylinderGeometry args={[radius, radius, height, 24]} />}
+      {material}
+    </mesh>
+  );
+}
+
+// Flat-shaded triangle mesh of a polyhedral die
+function PolyhedronBody({ geometry }: { geometry: DieGeometry }) {
+  const bufferGeometry = useMemo(() => {
+    const positions: number[] = [];
+    for (const face of geometry.faces) {
+      const [first, ...rest] = face.map((i) => geometry.vertices[i]);
+      for (let i = 0; i < rest.length - 1; i++) {
+        for (const p of [first, rest[i], rest[i + 1]]) positions.push(p.x, p.y, p.z);
+      }
+    }
+
+    const g = new THREE.BufferGeometry();
+    g.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+    g.computeVertexNormals();
+    return g;
+  }, [geometry]);
+
+  return (
+    <mesh geometry={bufferGeometry}>
+      <meshStandardMaterial color="#ffffff" transparent opacity={0.75} flatShading />
+    </mesh>
+  );
+}
 
 function DieMesh({
   weights,
   bubble,
+  inclusions,
   dimensions,
+  dieType,
+  labels,
+  roll,
+  onSettled,
 }: {
   weights: number[];
   bubble?: BubbleConfig;
+  inclusions: Inclusion[];
   dimensions: { lx: number; ly: number; lz: number };
+  dieType: DieType;
+  labels: string[];
+  roll: DieRoll | null;
+  onSettled: (roll: DieRoll) => void;
 }) {
   const groupRef = useRef<THREE.Group>(null!);
-
-  useFrame((_state, delta) => {
-    if (groupRef.current) {
-      groupRef.current.rotation.x += 0.3 * delta;
-      groupRef.current.rotation.y += 0.4 * delta;
-    }
-  });
+  const animationRef = useRef<RollAnimation | null>(null);
+  const startedRollRef = useRef<number | null>(null);
 
   const bubblePos = useMemo(() => {
     if (!bubble || !bubble.enabled) return [0, 0, 0] as [number, number, number];
@@ -51,7 +153,78 @@ function DieMesh({
   const markerOffset = Math.min(hX, hY, hZ) * 0.7;
   const epsilon = Math.max(sizeX, sizeY, sizeZ) * 0.01;
 
-  const weightData = useMemo(() => [
+  const geometry = useMemo(
+    () => getDieGeometry(dieType, { lx: sizeX, ly: sizeY, lz: sizeZ }),
+    [dieType, sizeX, sizeY, sizeZ]
+  );
+
+  useFrame((_state, delta) => {
+    const group = groupRef.current;
+    if (!group) return;
+
+    if (roll && roll.id !== startedRollRef.current) {
+      startedRollRef.current = roll.id;
+      animationRef.current = startRollAnimation(group.quaternion, geometry.faceNormals[roll.face]);
+    }
+
+    const animation = animationRef.current;
+    if (!animation) {
+      // Idle spin until the first roll; afterwards hold the landed face up
+      if (!roll) {
+        group.rotation.x += 0.3 * delta;
+        group.rotation.y += 0.4 * delta;
+      }
+      return;
+    }
+
+    animation.t = Math.min(animation.t + delta / ROLL_DURATION, 1);
+    const { t } = animation;
+
+    // Decelerating tumble, pulled onto the target orientation towards the end
+    const angle = animation.turns * (1 - (1 - t) * (1 - t));
+    const tumble = new THREE.Quaternion().setFromAxisAngle(animation.axis, angle).multiply(animation.from);
+    group.quaternion.copy(tumble).slerp(animation.target, t * t * t);
+
+    // Damped bounces
+    group.position.y = 0.8 * Math.abs(Math.sin(3 * Math.PI * t)) * (1 - t) * (1 - t);
+
+    if (t >= 1 && roll) {
+      animationRef.current = null;
+      group.position.y = 0;
+      onSettled(roll);
+    }
+  });
+
+  // Text on a general face: rotate the +Z text plane onto the face normal
+  const polyFaceData = useMemo(() => {
+    const zAxis = new THREE.Vector3(0, 0, 1);
+    return geometry.faceNormals.map((n, i) => {
+      const normal = new THREE.Vector3(n.x, n.y, n.z);
+      const c = geometry.faceCentres[i];
+      const q = new THREE.Quaternion().setFromUnitVectors(zAxis, normal);
+      const rot = new THREE.Euler().setFromQuaternion(q);
+      return {
+        face: i + 1,
+        pos: [c.x + n.x * epsilon, c.y + n.y * epsilon, c.z + n.z * epsilon],
+        rot: [rot.x, rot.y, rot.z],
+        prob: probs[i],
+      };
+    });
+  }, [geometry, epsilon, probs]);
+
+  const polyWeightData = useMemo(() => {
+    const offset = geometry.inradius * 0.7;
+    return geometry.faceNormals.map((n, i) => ({
+      face: i + 1,
+      pos: [n.x * offset, n.y * offset, n.z * offset],
+      weight: probs[i],
+    }));
+  }, [geometry, probs]);
+
+  const isBox = dieType === "d6";
+  const labelScale = isBox ? 0.3 : 0.8 / Math.sqrt(geometry.faceCount);
+
+  const boxWeightData = useMemo(() => [
     { face: 1, pos: [0, markerOffset, 0],  weight: probs[0] },
     { face: 6, pos: [0, -markerOffset, 0], weight: probs[5] },
     { face: 2, pos: [markerOffset, 0, 0],  weight: probs[1] },
@@ -60,7 +233,7 @@ function DieMesh({
     { face: 4, pos: [0, 0, -markerOffset], weight: probs[3] },
   ], [markerOffset, probs]);
 
-  const faceData = useMemo(() => [
+  const boxFaceData = useMemo(() => [
     { face: 1, pos: [0,  hY + epsilon, 0], rot: [hPi, 0, 0],     prob: probs[0] },
     { face: 6, pos: [0, -hY - epsilon, 0], rot: [-hPi, 0, 0],    prob: probs[5] },
     { face: 2, pos: [hX + epsilon, 0, 0],  rot: [0, hPi, -hPi],  prob: probs[1] },
@@ -69,15 +242,22 @@ function DieMesh({
     { face: 4, pos: [0, 0, -hZ - epsilon], rot: [0, 0, 0],       prob: probs[3] },
   ], [epsilon, hX, hY, hZ, hPi, probs]);
 
+  const weightData = isBox ? boxWeightData : polyWeightData;
+  const faceData = isBox ? boxFaceData : polyFaceData;
+
   return (
     <group ref={groupRef}>
-      <RoundedBox
-        args={[sizeX, sizeY, sizeZ]}
-        radius={0.15 * Math.min(sizeX, sizeY, sizeZ)}
-        smoothness={4}
-      >
-        <meshStandardMaterial color="#ffffff" transparent opacity={0.75} />
-      </RoundedBox>
+      {isBox ? (
+        <RoundedBox
+          args={[sizeX, sizeY, sizeZ]}
+          radius={edgeRadius({ lx: sizeX, ly: sizeY, lz: sizeZ })}
+          smoothness={4}
+        >
+          <meshStandardMaterial color="#ffffff" transparent opacity={0.75} />
+        </RoundedBox>
+      ) : (
+        <PolyhedronBody geometry={geometry} />
+      )}
 
       {weightData.map(({ face, pos, weight }) => (
         <mesh key={`w-${face}`} position={pos as [number, number, number]}>
@@ -97,14 +277,14 @@ function DieMesh({
           key={face}
           position={pos as [number, number, number]}
           rotation={rot as [number, number, number]}
-          fontSize={0.3 * dieScale}
+          fontSize={labelScale * (isBox ? dieScale : Math.cbrt(geometry.volume))}
           color={probToColor(prob)}
           anchorX="center"
           anchorY="middle"
           outlineWidth={0.005}
           outlineColor="#000000"
         >
-          {String(face)}
+          {labels[face - 1] ?? String(face)}
         </Text>
       ))}
       {bubble && bubble.enabled && (
@@ -120,6 +300,9 @@ function DieMesh({
            />
         </Sphere>
       )}
+      {inclusions.map((inc, i) => (
+        <InclusionMesh key={i} inclusion={inc} />
+      ))}
     </group>
   );
 }
@@ -127,24 +310,157 @@ function DieMesh({
 export function WeightedDieCanvas({
   weights,
   bubble,
+  inclusions = [],
   dimensions,
+  dieType = "d6",
+  labels,
 }: {
   weights: number[];
   bubble?: BubbleConfig;
+  inclusions?: Inclusion[];
   dimensions?: { lx: number; ly: number; lz: number };
+  dieType?: DieType;
+  labels?: string[];
 }) {
+  const faceCount = faceCountOf(dieType);
   const safeWeights =
-    weights.length === 6 ? weights : [1, 1, 1, 1, 1, 1];
+    weights.length === faceCount ? weights : Array(faceCount).fill(1);
   const safeDims = dimensions ?? { lx: 1, ly: 1, lz: 1 };
+  const safeLabels =
+    labels?.length === faceCount ? labels : safeWeights.map((_, i) => String(i + 1));
+
+  const [roll, setRoll] = useState<DieRoll | null>(null);
+  const [settledId, setSettledId] = useState<number | null>(null);
+  const [history, setHistory] = useState<{ dieType: DieType; faces: number[] }>({ dieType, faces: [] });
+
+  // Rolls and history of another die type no longer apply
+  const activeRoll = roll?.dieType === dieType ? roll : null;
+  const rolling = activeRoll !== null && activeRoll.id !== settledId;
+  const rolledFaces = history.dieType === dieType ? history.faces : [];
+
+  const handleRoll = () => {
+    setRoll({ id: (roll?.id ?? 0) + 1, face: rollWeightedDie(safeWeights), dieType });
+  };
+
+  const handleSettled = (settled: DieRoll) => {
+    setSettledId(settled.id);
+    setHistory((prev) => ({
+      dieType: settled.dieType,
+      faces: [...(prev.dieType === settled.dieType ? prev.faces : []), settled.face],
+    }));
+  };
+
+  const handleClear = () => {
+    setRoll(null);
+    setHistory({ dieType, faces: [] });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="relative w-full h-80 bg-[#171717] border border-white/15 rounded-xl overflow-hidden">
+        <Canvas camera={{ position: [3, 3, 3], fov: 50 }}>
+          <ambientLight intensity={0.6} />
+          <directionalLight position={[5, 5, 5]} intensity={0.8} />
+          <DieMesh
+            weights={safeWeights}
+            bubble={bubble}
+            inclusions={inclusions}
+            dimensions={safeDims}
+            dieType={dieType}
+            labels={safeLabels}
+            roll={activeRoll}
+            onSettled={handleSettled}
+          />
+          <OrbitControls />
+        </Canvas>
+
+        <button
+          onClick={handleRoll}
+          disabled={rolling}
+          className="absolute bottom-3 right-3 border rounded px-3 py-1 text-xs uppercase bg-black/40 cursor-pointer hover:bg-white/10 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          Roll once
+        </button>
+      </div>
+
+      <RollHistoryStrip history={rolledFaces} labels={safeLabels} onClear={handleClear} />
+    </div>
+  );
+}
+
+// Recent rolls with streaks and last-N frequencies
+function RollHistoryStrip({
+  history,
+  labels,
+  onClear,
+}: {
+  history: number[];
+  labels: string[];
+  onClear: () => void;
+}) {
+  const [lastN, setLastN] = useState(20);
+
+  if (history.length === 0) return null;
+
+  const current = currentStreak(history);
+  const longest = longestStreak(history);
+  const frequencies = lastNFrequencies(history, labels.length, Math.max(lastN, 1));
+  const windowSize = Math.min(Math.max(lastN, 1), history.length);
 
   return (
-    <div className="w-full h-80 bg-[#171717] border border-white/15 rounded-xl overflow-hidden">
-      <Canvas camera={{ position: [3, 3, 3], fov: 50 }}>
-        <ambientLight intensity={0.6} />
-        <directionalLight position={[5, 5, 5]} intensity={0.8} />
-        <DieMesh weights={safeWeights} bubble={bubble} dimensions={safeDims} />
-        <OrbitControls />
-      </Canvas>
+    <div className="flex flex-col gap-2 border rounded-lg p-3 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="uppercase font-semibold">Roll history ({history.length})</span>
+        <button
+          onClick={onClear}
+          className="border rounded px-2 py-1 cursor-pointer hover:bg-white/10"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {history.slice(-HISTORY_STRIP_LENGTH).map((face, i, recent) => (
+          <span
+            key={history.length - recent.length + i}
+            className={`border rounded px-1.5 py-0.5 font-mono ${
+              i === recent.length - 1 ? "bg-white/20" : "text-slate-400"
+            }`}
+          >
+            {labels[face]}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex justify-between text-slate-400">
+        <span>
+          Current streak: {current ? `${labels[current.face]} × ${current.length}` : "-"}
+        </span>
+        <span>
+          Longest streak: {longest ? `${labels[longest.face]} × ${longest.length}` : "-"}
+        </span>
+      </div>
+
+      <label className="flex items-center gap-2">
+        <span>Frequencies over the last</span>
+        <input
+          type="number"
+          min={1}
+          value={lastN}
+          onChange={(e) => setLastN(Number(e.target.value))}
+          className="border px-2 py-0.5 rounded w-16"
+        />
+        <span>rolls ({windowSize} used)</span>
+      </label>
+
+      <div className="grid grid-cols-3 gap-1 text-slate-400">
+        {frequencies.map((f, i) => (
+          <div key={i} className="flex justify-between">
+            <span>{labels[i]}</span>
+            <span>{f.toFixed(3)}</span>
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
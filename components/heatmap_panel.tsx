@@ -0,0 +1,273 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  BIAS_MEASURE_LABELS,
+  biasHeatmap,
+  halfExtents,
+  SLICE_AXES,
+  SLICE_PLANE_LABELS,
+  type BiasMeasure,
+  type Heatmap,
+  type HeatmapOptions,
+  type SlicePlane,
+} from "@/lib/heatmap";
+import type { DieDims, DieType } from "@/lib/geometry";
+import type { BubbleConfig, Vec3 } from "@/types/bubble";
+
+// Drawing size of the slice in SVG units
+const VIEW_SIZE = 400;
+
+// Quiet time after the last input change before the grid is recomputed
+const RECOMPUTE_DELAY_MS = 150;
+
+type Computed = { options: HeatmapOptions; heatmap: Heatmap | null; error: string | null };
+
+// Blue (low) to red (high)
+function heatColour(t: number): string {
+  return `hsl(${Math.round(240 * (1 - t))}, 80%, 50%)`;
+}
+
+export function HeatmapPanel({
+  dieType,
+  dims,
+  bubble,
+  baseWeights,
+  bubbleK,
+  labels,
+  onMoveBubble,
+}: {
+  dieType: DieType;
+  dims: DieDims;
+  bubble: BubbleConfig;
+  baseWeights: number[];
+  bubbleK: number | null;
+  labels: string[];
+  onMoveBubble: (offset: Vec3, radius: number) => void;
+}) {
+  const [plane, setPlane] = useState<SlicePlane>("xy");
+  const [depth, setDepth] = useState(0);
+  const [radius, setRadius] = useState(bubble.radius);
+  const [measure, setMeasure] = useState<BiasMeasure>("totalVariation");
+  const [face, setFace] = useState(0);
+  const [resolution, setResolution] = useState(25);
+
+  const half = halfExtents(dims, dieType);
+  const axes = SLICE_AXES[plane];
+  const depthLimit = half[axes.depth];
+
+  const options = useMemo(
+    (): HeatmapOptions => ({
+      dieType,
+      dims,
+      plane,
+      depth: Math.max(-depthLimit, Math.min(depth, depthLimit)),
+      radius,
+      resolution,
+      baseWeights,
+      k: bubbleK ?? undefined,
+      measure,
+      face,
+    }),
+    [dieType, dims, plane, depth, depthLimit, radius, resolution, baseWeights, bubbleK, measure, face]
+  );
+
+  // Recompute once the inputs settle (dragging the depth slider would otherwise block every
+  // frame); the last grid stays on screen meanwhile
+  const [result, setResult] = useState<Computed | null>(null);
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      try {
+        setResult({ options, heatmap: biasHeatmap(options), error: null });
+      } catch (e) {
+        setResult({ options, heatmap: null, error: e instanceof Error ? e.message : String(e) });
+      }
+    }, RECOMPUTE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [options]);
+
+  const isUpdating = result?.options !== options;
+  const heatmap = result?.heatmap ?? null;
+  const shown = result?.options ?? options;
+  const shownAxes = SLICE_AXES[shown.plane];
+  const hasCells = heatmap !== null && heatmap.max >= heatmap.min;
+
+  // Keep the slice's aspect ratio within the square view
+  const width = heatmap ? heatmap.uRange[1] - heatmap.uRange[0] : 1;
+  const height = heatmap ? heatmap.vRange[1] - heatmap.vRange[0] : 1;
+  const scale = VIEW_SIZE / Math.max(width, height);
+  const toX = (u: number) => (u - (heatmap?.uRange[0] ?? 0)) * scale;
+  const toY = (v: number) => ((heatmap?.vRange[1] ?? 0) - v) * scale;
+
+  return (
+    <section className="w-full max-w-5xl flex flex-col gap-4 border rounded-lg p-4">
+      <h2 className="font-semibold uppercase text-sm">Bias heatmap (void position)</h2>
+
+      <div className="flex flex-wrap items-end gap-3 text-xs">
+        <label className="flex flex-col gap-1">
+          <span className="uppercase">Slice</span>
+          <select
+            value={plane}
+            onChange={(e) => setPlane(e.target.value as SlicePlane)}
+            className="border px-2 py-1 rounded bg-transparent"
+          >
+            {(Object.keys(SLICE_PLANE_LABELS) as SlicePlane[]).map((p) => (
+              <option key={p} value={p} className="bg-neutral-900">
+                {SLICE_PLANE_LABELS[p]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="uppercase">
+            Depth ({axes.depth} = {Math.max(-depthLimit, Math.min(depth, depthLimit)).toFixed(2)})
+          </span>
+          <input
+            type="range"
+            min={-depthLimit}
+            max={depthLimit}
+            step={depthLimit / 50}
+            value={Math.max(-depthLimit, Math.min(depth, depthLimit))}
+            onChange={(e) => setDepth(Number(e.target.value))}
+            className="w-40 accent-blue-400"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="uppercase">Void radius</span>
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={radius}
+            onChange={(e) => setRadius(Number(e.target.value))}
+            className="border px-2 py-1 rounded w-20"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="uppercase">Grid</span>
+          <input
+            type="number"
+            min={2}
+            max={60}
+            step={1}
+            value={resolution}
+            onChange={(e) => setResolution(Math.min(60, Math.floor(Number(e.target.value))))}
+            className="border px-2 py-1 rounded w-16"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="uppercase">Measure</span>
+          <select
+            value={measure}
+            onChange={(e) => setMeasure(e.target.value as BiasMeasure)}
+            className="border px-2 py-1 rounded bg-transparent"
+          >
+            {(Object.keys(BIAS_MEASURE_LABELS) as BiasMeasure[]).map((m) => (
+              <option key={m} value={m} className="bg-neutral-900">
+                {BIAS_MEASURE_LABELS[m]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {measure === "faceProbability" && (
+          <label className="flex flex-col gap-1">
+            <span className="uppercase">Face</span>
+            <select
+              value={face}
+              onChange={(e) => setFace(Number(e.target.value))}
+              className="border px-2 py-1 rounded bg-transparent"
+            >
+              {labels.map((label, i) => (
+                <option key={i} value={i} className="bg-neutral-900">
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {result?.error && <div className="text-red-600 text-sm">ERROR: {result.error}</div>}
+
+      {heatmap && (
+        <div className="flex flex-col md:flex-row gap-4 items-start text-xs">
+          <svg
+            viewBox={`0 0 ${width * scale} ${height * scale}`}
+            className={`w-full max-w-md border rounded transition-opacity ${isUpdating ? "opacity-60" : ""}`}
+          >
+            {heatmap.rows.map((row, j) =>
+              row.map((cell, i) => {
+                const cellW = (width * scale) / row.length;
+                const cellH = (height * scale) / heatmap.rows.length;
+                const t =
+                  cell.value === null || heatmap.max === heatmap.min
+                    ? 0
+                    : (cell.value - heatmap.min) / (heatmap.max - heatmap.min);
+                return (
+                  <rect
+                    key={`${i}-${j}`}
+                    x={i * cellW}
+                    y={j * cellH}
+                    width={cellW + 0.5}
+                    height={cellH + 0.5}
+                    fill={cell.value === null ? "rgba(255,255,255,0.05)" : heatColour(t)}
+                    className={cell.value === null ? undefined : "cursor-pointer"}
+                    onClick={() => cell.value !== null && onMoveBubble(cell.position, shown.radius)}
+                  >
+                    <title>
+                      {`(${cell.position.x.toFixed(3)}, ${cell.position.y.toFixed(3)}, ${cell.position.z.toFixed(3)}): ${
+                        cell.value === null ? "does not fit" : cell.value.toFixed(4)
+                      }`}
+                    </title>
+                  </rect>
+                );
+              })
+            )}
+
+            {bubble.enabled && (
+              <circle
+                cx={toX(bubble.offset[shownAxes.u])}
+                cy={toY(bubble.offset[shownAxes.v])}
+                r={Math.max(bubble.radius * scale, 3)}
+                fill="none"
+                stroke="white"
+                strokeWidth={2}
+                strokeDasharray={
+                  Math.abs(bubble.offset[shownAxes.depth] - shown.depth) > bubble.radius ? "4 4" : undefined
+                }
+                pointerEvents="none"
+              />
+            )}
+          </svg>
+
+          <div className="flex flex-col gap-2">
+            <div className="font-semibold">
+              {BIAS_MEASURE_LABELS[shown.measure]}
+              {isUpdating && <span className="font-normal text-slate-400"> (updating...)</span>}
+            </div>
+            {hasCells ? (
+              <>
+                <div
+                  className="h-3 w-48 rounded"
+                  style={{ background: `linear-gradient(to right, ${heatColour(0)}, ${heatColour(0.5)}, ${heatColour(1)})` }}
+                />
+                <div className="flex justify-between w-48">
+                  <span>{heatmap.min.toFixed(4)}</span>
+                  <span>{heatmap.max.toFixed(4)}</span>
+                </div>
+              </>
+            ) : (
+              <div className="text-amber-500">A void of this radius does not fit anywhere on this slice.</div>
+            )}
+            <p className="text-[11px] text-slate-500 max-w-xs">
+              Horizontal axis {shownAxes.u}, vertical axis {shownAxes.v}. Grey cells are where the void would
+              poke out of the die. Click a cell to move the air bubble there with this radius; the
+              circle marks the current bubble (dashed when it lies off this slice). Other inclusions
+              are not included.
+            </p>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { parseRollLog, ROLL_LOG_FORMAT_LABELS, type RollLog, type RollLogFormat } from "@/lib/roll_log";
+
+export function ImportPanel({
+  labels,
+  onImport,
+}: {
+  labels: string[];
+  onImport: (log: RollLog, name: string) => void;
+}) {
+  const [text, setText] = useState("");
+  const [name, setName] = useState("pasted data");
+  const [format, setFormat] = useState<RollLogFormat>("auto");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    setName(file.name);
+    setError(null);
+  };
+
+  const handleImport = () => {
+    try {
+      setError(null);
+      onImport(parseRollLog(text, labels, format), name);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not read the roll log.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 border rounded-lg p-3 text-xs">
+      <div className="uppercase font-semibold text-sm">Import roll log</div>
+
+      <input
+        type="file"
+        accept=".csv,.json,.txt"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="text-slate-400 file:mr-2 file:border file:rounded file:px-2 file:py-1 file:bg-transparent file:text-slate-200"
+      />
+
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setName("pasted data");
+        }}
+        rows={4}
+        placeholder={"1\n6\n3\n...  or  face,count  or  [1, 6, 3]"}
+        className="border px-2 py-1 rounded w-full font-mono"
+      />
+
+      <div className="flex items-center gap-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as RollLogFormat)}
+          className="border px-2 py-1 rounded bg-transparent flex-1"
+        >
+          {(Object.keys(ROLL_LOG_FORMAT_LABELS) as RollLogFormat[]).map((f) => (
+            <option key={f} value={f} className="bg-neutral-900">
+              {ROLL_LOG_FORMAT_LABELS[f]}
+            </option>
+          ))}
+        </select>
+
+        <button
+          onClick={handleImport}
+          disabled={text.trim() === ""}
+          className="border rounded px-3 py-1 uppercase cursor-pointer hover:bg-white/10 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          Analyse
+        </button>
+      </div>
+
+      <p className="text-[11px] text-slate-500">
+        Outcomes are matched to face labels, then to face numbers 1&ndash;{labels.length}.
+      </p>
+
+      {error && <div className="text-red-600">ERROR: {error}</div>}
+    </div>
+  );
+}
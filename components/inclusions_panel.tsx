@@ -0,0 +1,161 @@
+"use client";
+
+import { AXES, INCLUSION_SHAPE_LABELS, INCLUSION_SHAPES } from "@/lib/inclusions";
+import type { Axis, Inclusion, InclusionShape } from "@/types/bubble";
+
+// Number input for one size of an inclusion
+function SizeInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="uppercase">{label}</span>
+      <input
+        type="number"
+        step={0.01}
+        min={0}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="border px-2 py-1 rounded"
+      />
+    </label>
+  );
+}
+
+export function InclusionsPanel({
+  inclusions,
+  issues,
+  halfDims,
+  onChange,
+  onAdd,
+  onRemove,
+}: {
+  inclusions: Inclusion[];
+  issues: string[];
+  halfDims: { x: number; y: number; z: number };
+  onChange: (index: number, patch: Partial<Inclusion>) => void;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-3 border rounded-lg p-3 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold uppercase text-sm">Inclusions</span>
+        <button
+          onClick={onAdd}
+          className="border rounded px-2 py-1 cursor-pointer hover:bg-white/10"
+        >
+          Add inclusion
+        </button>
+      </div>
+
+      {inclusions.length === 0 && (
+        <p className="text-[11px] text-slate-500">
+          Extra voids, drilled pips or dense slugs. Density is relative to the body: 0 is empty, above
+          1 pulls the centre of mass toward the inclusion.
+        </p>
+      )}
+
+      {inclusions.map((inc, i) => (
+        <div key={i} className="flex flex-col gap-2 border-t border-white/10 pt-2">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold whitespace-nowrap">#{i + 1}</span>
+            <select
+              value={inc.shape}
+              onChange={(e) => onChange(i, { shape: e.target.value as InclusionShape })}
+              className="border px-2 py-1 rounded bg-transparent flex-1"
+            >
+              {INCLUSION_SHAPES.map((shape) => (
+                <option key={shape} value={shape} className="bg-neutral-900">
+                  {INCLUSION_SHAPE_LABELS[shape]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onRemove(i)}
+              className="border rounded px-2 py-1 cursor-pointer hover:bg-white/10"
+            >
+              Remove
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {inc.shape === "box" ? (
+              AXES.map((axis) => (
+                <SizeInput
+                  key={axis}
+                  label={`Half-edge ${axis}`}
+                  value={inc.halfExtents[axis]}
+                  onChange={(v) => onChange(i, { halfExtents: { ...inc.halfExtents, [axis]: v } })}
+                />
+              ))
+            ) : (
+              <SizeInput label="Radius" value={inc.radius} onChange={(v) => onChange(i, { radius: v })} />
+            )}
+            {inc.shape === "cylinder" && (
+              <>
+                <SizeInput label="Height" value={inc.height} onChange={(v) => onChange(i, { height: v })} />
+                <label className="flex flex-col gap-1">
+                  <span className="uppercase">Axis</span>
+                  <select
+                    value={inc.axis}
+                    onChange={(e) => onChange(i, { axis: e.target.value as Axis })}
+                    className="border px-2 py-1 rounded bg-transparent"
+                  >
+                    {AXES.map((axis) => (
+                      <option key={axis} value={axis} className="bg-neutral-900">
+                        {axis.toUpperCase()}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            )}
+            <label className="flex flex-col gap-1">
+              <span className="uppercase">Density</span>
+              <input
+                type="number"
+                step={0.5}
+                min={0}
+                value={inc.density}
+                onChange={(e) => onChange(i, { density: Number(e.target.value) })}
+                className="border px-2 py-1 rounded"
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {(["x", "y", "z"] as const).map((axis) => (
+              <label key={axis} className="flex flex-col gap-1">
+                <span className="uppercase">{axis}</span>
+                <input
+                  type="number"
+                  step={0.01}
+                  min={-halfDims[axis]}
+                  max={halfDims[axis]}
+                  value={inc.offset[axis]}
+                  onChange={(e) =>
+                    onChange(i, { offset: { ...inc.offset, [axis]: Number(e.target.value) } })
+                  }
+                  className="border px-2 py-1 rounded"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {issues.map((issue) => (
+        <div key={issue} className="text-amber-500">
+          {issue}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import { useSimulationWorker } from "@/hooks/use_simulation_worker";
+import type { DieDims, DieType } from "@/lib/geometry";
+import type { InverseDesignResult } from "@/lib/inverse_design";
+import { normalizeWeights } from "@/lib/die";
+import { DISTANCE_LABELS, type DistanceKind } from "@/lib/stats";
+import type { BubbleConfig } from "@/types/bubble";
+
+type Solution = {
+  result: InverseDesignResult;
+  target: number[];      // Normalised target the search ran against
+  distance: DistanceKind;
+  withDims: boolean;
+};
+
+// Fixed seed so the multi-start search gives the same answer for the same input
+const DESIGN_SEED = "1";
+
+// Starts of the multi-start search
+const DESIGN_RESTARTS = 8;
+
+// Parse "0.2, 0.1, ..." into non-negative numbers; null if any entry is invalid
+function parseTarget(text: string): number[] | null {
+  const parts = text.split(/[\s,;]+/).filter(Boolean);
+  const values = parts.map(Number);
+  return values.every((v) => Number.isFinite(v) && v >= 0) ? values : null;
+}
+
+export function InverseDesignPanel({
+  dieType,
+  dims,
+  baseWeights,
+  exponent,
+  bubbleK,
+  labels,
+  hasInclusions,
+  onApply,
+}: {
+  dieType: DieType;
+  dims: DieDims;
+  baseWeights: number[];
+  exponent: number;
+  bubbleK: number | null;
+  labels: string[];
+  hasInclusions: boolean; // Inclusions besides the air bubble modify the model
+  onApply: (bubble: BubbleConfig, dims: DieDims | null) => void;
+}) {
+  const [targetText, setTargetText] = useState(() =>
+    labels.map(() => (1 / labels.length).toFixed(4)).join(", ")
+  );
+  const [distance, setDistance] = useState<DistanceKind>("kl");
+  const [optimiseDimensions, setOptimiseDimensions] = useState(false);
+  const [solution, setSolution] = useState<Solution | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const search = useSimulationWorker();
+
+  const result = solution?.result ?? null;
+  const target = parseTarget(targetText);
+  const targetValid = target !== null && target.length === labels.length && target.some((t) => t > 0);
+
+  const handleSolve = async () => {
+    if (!target) return;
+    try {
+      setError(null);
+
+      const result = await search.runDesign({
+        target,
+        options: {
+          dieType,
+          dims,
+          baseWeights,
+          optimiseDimensions,
+          exponent,
+          k: bubbleK ?? undefined,
+          distance,
+        },
+        n: DESIGN_RESTARTS,
+        seed: DESIGN_SEED,
+      });
+      if (!result) return;
+
+      setSolution({ result, target: normalizeWeights(target), distance, withDims: optimiseDimensions });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An unexpected error occurred during the search.");
+    }
+  };
+
+  return (
+    <section className="w-full max-w-5xl flex flex-col gap-4 border rounded-lg p-4">
+      <h2 className="font-semibold uppercase text-sm">
+        Inverse design (bubble for target probabilities)
+      </h2>
+
+      <label className="flex flex-col gap-1 text-sm">
+        <span className="text-xs uppercase font-semibold">Target probabilities per face</span>
+        <input
+          type="text"
+          value={targetText}
+          onChange={(e) => setTargetText(e.target.value)}
+          className="border px-2 py-1 rounded w-full"
+        />
+        {!targetValid && (
+          <span className="text-xs text-red-600">
+            Enter {labels.length} non-negative values separated by commas (they are normalised).
+          </span>
+        )}
+      </label>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs">
+        <select
+          value={distance}
+          onChange={(e) => setDistance(e.target.value as DistanceKind)}
+          className="border px-2 py-1 rounded bg-transparent"
+        >
+          {(Object.keys(DISTANCE_LABELS) as DistanceKind[]).map((d) => (
+            <option key={d} value={d} className="bg-neutral-900">
+              {DISTANCE_LABELS[d]}
+            </option>
+          ))}
+        </select>
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={optimiseDimensions}
+            onChange={(e) => setOptimiseDimensions(e.target.checked)}
+            className="accent-blue-400"
+          />
+          <span>Also optimise dimensions (volume kept)</span>
+        </label>
+
+        <button
+          onClick={handleSolve}
+          disabled={!targetValid || search.isRunning}
+          className="border rounded px-3 py-1 uppercase cursor-pointer hover:bg-white/10 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {search.isRunning ? "Solving..." : "Solve"}
+        </button>
+        {search.isRunning && (
+          <>
+            <button
+              onClick={search.cancel}
+              className="border rounded px-3 py-1 uppercase cursor-pointer hover:bg-white/10"
+            >
+              Cancel
+            </button>
+            {search.progress && (
+              <span className="text-slate-400">
+                {search.progress.rolled} / {search.progress.n} starts done
+              </span>
+            )}
+          </>
+        )}
+      </div>
+
+      <p className="text-[11px] text-slate-500">
+        Searches the air bubble&apos;s offset and radius within the die. Without dimension search the
+        current base weights are kept. Other inclusions are not part of the search and are removed on apply.
+      </p>
+
+      {error && <div className="text-red-600 text-sm">ERROR: {error}</div>}
+
+      {solution && result && (
+        <div className="flex flex-col gap-3 text-xs">
+          <div className={result.reachable ? "text-green-500" : "text-amber-500"}>
+            {result.reachable ? (
+              <>Target reachable: every face is matched within 0.001.</>
+            ) : (
+              <>
+                Target not reachable: the closest configuration is off by up to{" "}
+                {result.maxError.toFixed(4)} on a face.
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-1">
+            <span>Residual ({DISTANCE_LABELS[solution.distance]})</span>
+            <span className="text-right">{result.residual.toExponential(3)}</span>
+            <span>Bubble offset</span>
+            <span className="text-right">
+              ({(["x", "y", "z"] as const).map((a) => result.bubble.offset[a].toFixed(3)).join(", ")})
+            </span>
+            <span>Bubble radius</span>
+            <span className="text-right">{result.bubble.radius.toFixed(3)}</span>
+            {solution.withDims && (
+              <>
+                <span>Dimensions</span>
+                <span className="text-right">
+                  {[result.dims.lx, result.dims.ly, result.dims.lz].map((l) => l.toFixed(3)).join(" × ")}
+                </span>
+              </>
+            )}
+          </div>
+
+          <table className="border-collapse border w-full">
+            <thead>
+              <tr>
+                <th className="border px-2 py-1">Face</th>
+                <th className="border px-2 py-1">Target</th>
+                <th className="border px-2 py-1">Achieved</th>
+                <th className="border px-2 py-1">Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.probs.map((p, i) => {
+                const t = solution.target[i];
+                return (
+                  <tr key={i}>
+                    <td className="border px-2 py-1 text-center">{labels[i]}</td>
+                    <td className="border px-2 py-1 text-center">{t.toFixed(4)}</td>
+                    <td className="border px-2 py-1 text-center">{p.toFixed(4)}</td>
+                    <td className="border px-2 py-1 text-center">{(p - t).toFixed(4)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <button
+            onClick={() => onApply(result.bubble, solution.withDims ? result.dims : null)}
+            className="self-start border rounded px-3 py-1 uppercase cursor-pointer hover:bg-white/10"
+          >
+            Apply configuration
+          </button>
+          {hasInclusions && (
+            <p className="text-amber-500">
+              Applying removes the other inclusions, so the model&apos;s probabilities are the achieved
+              ones above.
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
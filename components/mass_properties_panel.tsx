@@ -0,0 +1,76 @@
+"use client";
+
+import { useMemo } from "react";
+import { EDGE_RADIUS_RATIO, type DieDims, type DieType } from "@/lib/geometry";
+import { massProperties } from "@/lib/mass_properties";
+import type { Inclusion } from "@/types/bubble";
+
+const AXES = ["x", "y", "z"] as const;
+
+export function MassPropertiesPanel({
+  dims,
+  inclusions,
+  dieType,
+}: {
+  dims: DieDims;
+  inclusions: Inclusion[];
+  dieType: DieType;
+}) {
+  const props = useMemo(() => {
+    if (dieType !== "d6") return null;
+    try {
+      return massProperties(dims, inclusions);
+    } catch {
+      return null;
+    }
+  }, [dims, inclusions, dieType]);
+
+  return (
+    <div className="flex flex-col gap-2 border rounded-lg p-3 text-xs">
+      <div className="uppercase font-semibold text-sm">Mass properties</div>
+
+      {dieType !== "d6" ? (
+        <p className="text-[11px] text-slate-500">Available for the d6 (rounded cuboid) only.</p>
+      ) : !props ? (
+        <p className="text-red-600">ERROR: the inclusions leave the die without mass.</p>
+      ) : (
+        <>
+          <div className="flex justify-between">
+            <span>Volume</span>
+            <span>{props.volume.toFixed(4)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Mass (body density 1)</span>
+            <span>{props.mass.toFixed(4)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Centre of mass</span>
+            <span>
+              ({AXES.map((axis) => props.centreOfMass[axis].toFixed(4)).join(", ")})
+            </span>
+          </div>
+
+          <div className="text-slate-400">Inertia tensor about the centre of mass</div>
+          <table className="border-collapse border w-full font-mono">
+            <tbody>
+              {AXES.map((row, i) => (
+                <tr key={row}>
+                  {AXES.map((col, j) => (
+                    <td key={col} className="border px-2 py-1 text-right">
+                      {props.inertia[i * 3 + j].toFixed(5)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <p className="text-[11px] text-slate-500">
+            Edges rounded with radius {EDGE_RADIUS_RATIO} &times; the smallest side. These values
+            drive the centre-of-mass shift in the model and the rigid-body tosses.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ErrorBar, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { dirichletPosterior, probabilityFairWithin } from "@/lib/bayes";
+import { createRandom } from "@/lib/random";
+
+const posteriorConfig = {
+  mean: { label: "Posterior mean", color: "hsl(150, 60%, 50%)" },
+};
+
+// Fixed seed so the Monte Carlo fairness estimate does not flicker between renders
+const FAIRNESS_SEED = 1;
+
+// Parse "12, 15, 9" into counts; null if any entry is invalid
+function parseCounts(text: string): number[] | null {
+  const parts = text.split(/[\s,;]+/).filter(Boolean);
+  const counts = parts.map(Number);
+  return counts.every((c) => Number.isFinite(c) && c >= 0) ? counts : null;
+}
+
+export function PosteriorPanel({
+  counts,
+  labels,
+  physicsActive,
+  onApplyWeights,
+}: {
+  counts: number[] | null;
+  labels: string[];
+  physicsActive: boolean; // Bubble or inclusions currently modify the base weights
+  onApplyWeights: (weights: number[]) => void;
+}) {
+  const faceCount = labels.length;
+  const [observed, setObserved] = useState(() => Array(faceCount).fill(0).join(", "));
+  const [prior, setPrior] = useState(1);
+  const [epsilon, setEpsilon] = useState(0.01);
+  const [level, setLevel] = useState(0.95);
+
+  const parsed = useMemo(() => parseCounts(observed), [observed]);
+
+  const posterior = useMemo(() => {
+    if (!parsed || parsed.length !== faceCount) return null;
+    try {
+      return dirichletPosterior(parsed, prior, level);
+    } catch {
+      return null;
+    }
+  }, [parsed, faceCount, prior, level]);
+
+  const pFair = useMemo(() => {
+    if (!posterior) return null;
+    try {
+      return probabilityFairWithin(posterior.alpha, epsilon, 20000, createRandom(FAIRNESS_SEED));
+    } catch {
+      return null;
+    }
+  }, [posterior, epsilon]);
+
+  const chartData = useMemo(() => {
+    if (!posterior) return [];
+    return posterior.mean.map((m, i) => ({
+      face: labels[i],
+      mean: Number(m.toFixed(4)),
+      interval: [m - posterior.intervals[i].lower, posterior.intervals[i].upper - m],
+    }));
+  }, [posterior, labels]);
+
+  // Scale the posterior mean so that a fair die has weight 1 per face
+  const handleApply = () => {
+    if (!posterior) return;
+    onApplyWeights(posterior.mean.map((m) => Number((m * faceCount).toFixed(4))));
+  };
+
+  return (
+    <Card className="w-full max-w-5xl">
+      <CardHeader>
+        <CardTitle>Bayesian Estimate of the Weights (Dirichlet Posterior)</CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs uppercase font-semibold">Observed counts per face</span>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={observed}
+              onChange={(e) => setObserved(e.target.value)}
+              className="border px-2 py-1 rounded w-full"
+            />
+            <button
+              onClick={() => counts && setObserved(counts.join(", "))}
+              disabled={!counts || counts.length !== faceCount}
+              className="border rounded px-2 py-1 text-xs whitespace-nowrap cursor-pointer hover:bg-white/10 disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              Use last results
+            </button>
+          </div>
+          {(!parsed || parsed.length !== faceCount) && (
+            <span className="text-xs text-red-600">
+              Enter {faceCount} non-negative counts separated by commas.
+            </span>
+          )}
+        </label>
+
+        <div className="grid grid-cols-3 gap-2 text-xs">
+          <label className="flex flex-col gap-1">
+            <span className="uppercase">Prior concentration (&alpha;)</span>
+            <input
+              type="number"
+              min={0.01}
+              step={0.5}
+              value={prior}
+              onChange={(e) => setPrior(Number(e.target.value))}
+              className="border px-2 py-1 rounded"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="uppercase">Fairness tolerance (&epsilon;)</span>
+            <input
+              type="number"
+              min={0}
+              step={0.005}
+              value={epsilon}
+              onChange={(e) => setEpsilon(Number(e.target.value))}
+              className="border px-2 py-1 rounded"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="uppercase">Credible level</span>
+            <input
+              type="number"
+              min={0.5}
+              max={0.999}
+              step={0.01}
+              value={level}
+              onChange={(e) => setLevel(Number(e.target.value))}
+              className="border px-2 py-1 rounded"
+            />
+          </label>
+        </div>
+
+        {posterior && (
+          <>
+            <ChartContainer config={posteriorConfig} className="h-64 w-full">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="face" tickFormatter={(v) => `Face ${v}`} />
+                <YAxis tickFormatter={(v) => v.toFixed(2)} domain={[0, "auto"]} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="mean" fill="var(--color-mean)" radius={[4, 4, 0, 0]}>
+                  <ErrorBar dataKey="interval" width={6} strokeWidth={1.5} stroke="currentColor" />
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+
+            <table className="border-collapse border w-full text-xs">
+              <thead>
+                <tr>
+                  <th className="border px-2 py-1">Face</th>
+                  <th className="border px-2 py-1">&alpha; posterior</th>
+                  <th className="border px-2 py-1">Mean</th>
+                  <th className="border px-2 py-1">{(level * 100).toFixed(1)}% lower</th>
+                  <th className="border px-2 py-1">{(level * 100).toFixed(1)}% upper</th>
+                </tr>
+              </thead>
+              <tbody>
+                {posterior.mean.map((m, i) => (
+                  <tr key={i}>
+                    <td className="border px-2 py-1 text-center">{labels[i]}</td>
+                    <td className="border px-2 py-1 text-center">{posterior.alpha[i]}</td>
+                    <td className="border px-2 py-1 text-center">{m.toFixed(4)}</td>
+                    <td className="border px-2 py-1 text-center">
+                      {posterior.intervals[i].lower.toFixed(4)}
+                    </td>
+                    <td className="border px-2 py-1 text-center">
+                      {posterior.intervals[i].upper.toFixed(4)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex items-center justify-between">
+              <span>
+                P(|p&#x1D62; &minus; 1/{faceCount}| &le; {epsilon} for all faces | data)
+              </span>
+              <span>{pFair === null ? "-" : pFair.toFixed(4)}</span>
+            </div>
+
+            <button
+              onClick={handleApply}
+              className="self-start border rounded px-3 py-1 text-xs uppercase cursor-pointer hover:bg-white/10"
+            >
+              Load posterior mean into weights
+            </button>
+            {physicsActive && (
+              <p className="text-xs text-amber-500">
+                Loading switches off the air bubble and removes the inclusions, so the model&apos;s
+                probabilities are the posterior mean itself.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { downloadFile } from "@/lib/download";
+import { parseScenarioJson, scenarioToQuery } from "@/lib/scenario";
+import type { Scenario } from "@/types/scenario";
+
+export function ScenarioPanel({
+  scenario,
+  includeSeed,
+  includeResults,
+  seedAvailable,
+  resultsAvailable,
+  loadError,
+  onIncludeSeedChange,
+  onIncludeResultsChange,
+  onLoad,
+}: {
+  scenario: Scenario;
+  includeSeed: boolean;
+  includeResults: boolean;
+  seedAvailable: boolean;
+  resultsAvailable: boolean;
+  loadError: string | null;
+  onIncludeSeedChange: (value: boolean) => void;
+  onIncludeResultsChange: (value: boolean) => void;
+  onLoad: (scenario: Scenario) => void;
+}) {
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopyLink = async () => {
+    try {
+      setError(null);
+      const { origin, pathname } = window.location;
+      await navigator.clipboard.writeText(`${origin}${pathname}${scenarioToQuery(scenario)}`);
+      setCopied(true);
+    } catch {
+      setError("Could not copy the link to the clipboard.");
+    }
+  };
+
+  const handleDownload = () => {
+    downloadFile(`scenario-${scenario.dieType}.json`, JSON.stringify(scenario, null, 2), "application/json");
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setError(null);
+      onLoad(parseScenarioJson(await file.text()));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not read the scenario.");
+    }
+  };
+
+  const shownError = error ?? loadError;
+
+  return (
+    <div className="flex flex-col gap-2 border rounded-lg p-3 text-xs">
+      <div className="uppercase font-semibold text-sm">Scenario</div>
+
+      <p className="text-[11px] text-slate-500">
+        The page address always carries the current configuration, so a reload or a shared link
+        restores it.
+      </p>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={includeSeed && seedAvailable}
+          disabled={!seedAvailable}
+          onChange={(e) => onIncludeSeedChange(e.target.checked)}
+          className="accent-blue-400"
+        />
+        <span>Include seed</span>
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={includeResults && resultsAvailable}
+          disabled={!resultsAvailable}
+          onChange={(e) => onIncludeResultsChange(e.target.checked)}
+          className="accent-blue-400"
+        />
+        <span>Include results</span>
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleCopyLink}
+          onBlur={() => setCopied(false)}
+          className="border rounded px-2 py-1 cursor-pointer hover:bg-white/10"
+        >
+          {copied ? "Link copied" : "Copy link"}
+        </button>
+        <button
+          onClick={handleDownload}
+          className="border rounded px-2 py-1 cursor-pointer hover:bg-white/10"
+        >
+          Download JSON
+        </button>
+      </div>
+
+      <input
+        type="file"
+        accept=".json,application/json"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+        className="text-slate-400 file:mr-2 file:border file:rounded file:px-2 file:py-1 file:bg-transparent file:text-slate-200"
+      />
+
+      {shownError && <div className="text-red-600">ERROR: {shownError}</div>}
+    </div>
+  );
+}
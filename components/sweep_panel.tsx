@@ -0,0 +1,297 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceArea, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useSimulationWorker } from "@/hooks/use_simulation_worker";
+import type { DieDims, DieType } from "@/lib/geometry";
+import { randomSeed } from "@/lib/random";
+import {
+  clampedSegments,
+  SWEEP_PARAMETER_LABELS,
+  sweepRange,
+  type SweepParameter,
+  type SweepPoint,
+} from "@/lib/sweep";
+import type { BubbleConfig } from "@/types/bubble";
+
+type Sweep = { parameter: SweepParameter; points: SweepPoint[]; seed: string | null };
+
+export function SweepPanel({
+  dieType,
+  dims,
+  bubble,
+  baseWeights,
+  exponent,
+  bubbleK,
+  labels,
+  seed,
+}: {
+  dieType: DieType;
+  dims: DieDims;
+  bubble: BubbleConfig;
+  baseWeights: number[];
+  exponent: number;
+  bubbleK: number | null;
+  labels: string[];
+  seed: string;
+}) {
+  const [parameter, setParameter] = useState<SweepParameter>("offsetX");
+  const [range, setRange] = useState<[number, number]>(() => sweepRange("offsetX", dims, dieType));
+  const [steps, setSteps] = useState(41);
+  const [withBands, setWithBands] = useState(false);
+  const [bandRolls, setBandRolls] = useState(2000);
+  const [sweep, setSweep] = useState<Sweep | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const simulation = useSimulationWorker();
+
+  const parameters = (Object.keys(SWEEP_PARAMETER_LABELS) as SweepParameter[]).filter(
+    (p) => p !== "lz" || dieType === "d6"
+  );
+
+  const handleParameterChange = (next: SweepParameter) => {
+    setParameter(next);
+    setRange(sweepRange(next, dims, dieType));
+  };
+
+  const handleSweep = async () => {
+    try {
+      setError(null);
+
+      // Blank page seed: draw a fresh one so the bands can still be replayed
+      const runSeed = seed.trim() === "" ? String(randomSeed()) : seed.trim();
+
+      const points = await simulation.runSweep({
+        parameter,
+        options: {
+          dieType,
+          dims,
+          bubble,
+          baseWeights,
+          exponent,
+          k: bubbleK ?? undefined,
+          from: range[0],
+          to: range[1],
+        },
+        bandRolls: withBands ? bandRolls : null,
+        n: steps,
+        seed: runSeed,
+      });
+      if (!points) return;
+
+      setSweep({ parameter, points, seed: withBands ? runSeed : null });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An unexpected error occurred during the sweep.");
+    }
+  };
+
+  // One colour per face around the hue circle
+  const chartConfig = useMemo(() => {
+    const config: ChartConfig = {};
+    labels.forEach((label, i) => {
+      config[`p${i}`] = { label: `Face ${label}`, color: `hsl(${(360 * i) / labels.length}, 80%, 60%)` };
+    });
+    return config;
+  }, [labels]);
+
+  const chartData = useMemo(() => {
+    if (!sweep) return [];
+    return sweep.points.map((point) => {
+      const row: { value: number; [key: string]: number | number[] } = { value: point.value };
+      point.probs.forEach((p, i) => {
+        row[`p${i}`] = Number(p.toFixed(4));
+        if (point.bands) row[`band${i}`] = [point.bands[i].lower, point.bands[i].upper];
+      });
+      return row;
+    });
+  }, [sweep]);
+
+  const segments = useMemo(() => (sweep ? clampedSegments(sweep.points) : []), [sweep]);
+  const hasBands = sweep?.points[0]?.bands != null;
+
+  return (
+    <section className="w-full max-w-5xl flex flex-col gap-4 border rounded-lg p-4">
+      <h2 className="font-semibold uppercase text-sm">Parameter sweep</h2>
+
+      <div className="flex flex-wrap items-end gap-3 text-xs">
+        <label className="flex flex-col gap-1">
+          <span className="uppercase">Parameter</span>
+          <select
+            value={parameter}
+            onChange={(e) => handleParameterChange(e.target.value as SweepParameter)}
+            className="border px-2 py-1 rounded bg-transparent"
+          >
+            {parameters.map((p) => (
+              <option key={p} value={p} className="bg-neutral-900">
+                {SWEEP_PARAMETER_LABELS[p]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="uppercase">From</span>
+          <input
+            type="number"
+            step={0.05}
+            value={range[0]}
+            onChange={(e) => setRange(([, to]) => [Number(e.target.value), to])}
+            className="border px-2 py-1 rounded w-24"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="uppercase">To</span>
+          <input
+            type="number"
+            step={0.05}
+            value={range[1]}
+            onChange={(e) => setRange(([from]) => [from, Number(e.target.value)])}
+            className="border px-2 py-1 rounded w-24"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="uppercase">Steps</span>
+          <input
+            type="number"
+            min={2}
+            step={1}
+            value={steps}
+            onChange={(e) => setSteps(Math.floor(Number(e.target.value)))}
+            className="border px-2 py-1 rounded w-20"
+          />
+        </label>
+        <button
+          onClick={() => setRange(sweepRange(parameter, dims, dieType))}
+          className="border rounded px-2 py-1 cursor-pointer hover:bg-white/10"
+        >
+          Full range
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={withBands}
+            onChange={(e) => setWithBands(e.target.checked)}
+            className="accent-blue-400"
+          />
+          <span>Monte Carlo bands (95% Wilson)</span>
+        </label>
+        {withBands && (
+          <label className="flex items-center gap-2">
+            <span>Rolls per step</span>
+            <input
+              type="number"
+              min={1}
+              value={bandRolls}
+              onChange={(e) => setBandRolls(Number(e.target.value))}
+              className="border px-2 py-1 rounded w-24"
+            />
+          </label>
+        )}
+        <button
+          onClick={handleSweep}
+          disabled={simulation.isRunning}
+          className="border rounded px-3 py-1 uppercase cursor-pointer hover:bg-white/10 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {simulation.isRunning ? "Sweeping..." : "Sweep"}
+        </button>
+        {simulation.isRunning && (
+          <>
+            <button
+              onClick={simulation.cancel}
+              className="border rounded px-3 py-1 uppercase cursor-pointer hover:bg-white/10"
+            >
+              Cancel
+            </button>
+            {simulation.progress && (
+              <span className="text-slate-400">
+                {simulation.progress.rolled} / {simulation.progress.n} steps done
+              </span>
+            )}
+          </>
+        )}
+      </div>
+
+      <p className="text-[11px] text-slate-500">
+        The bubble is switched on for the sweep and the other parameters keep their current values.
+        Sweeping lz recomputes the base weights from the dimensions; the offset and radius sweeps
+        keep the current base weights. Other inclusions are not included.
+      </p>
+
+      {error && <div className="text-red-600 text-sm">ERROR: {error}</div>}
+
+      {sweep && (
+        <>
+          {sweep.seed !== null && <p className="text-xs text-slate-400">Seed: {sweep.seed}</p>}
+          <ChartContainer config={chartConfig} className="h-80 w-full">
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="value"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(v) => v.toFixed(2)}
+              />
+              <YAxis tickFormatter={(v) => v.toFixed(2)} domain={[0, "auto"]} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+
+              {segments.map(([x1, x2]) => (
+                <ReferenceArea
+                  key={x1}
+                  x1={x1}
+                  x2={x2}
+                  fill="hsl(40, 90%, 50%)"
+                  fillOpacity={0.12}
+                  label={{ value: "clamped", position: "insideTop", fill: "currentColor", fontSize: 10 }}
+                />
+              ))}
+
+              {hasBands &&
+                labels.map((_, i) => (
+                  <Area
+                    key={`band${i}`}
+                    dataKey={`band${i}`}
+                    stroke="none"
+                    fill={`var(--color-p${i})`}
+                    fillOpacity={0.15}
+                    legendType="none"
+                    tooltipType="none"
+                    isAnimationActive={false}
+                  />
+                ))}
+
+              {labels.map((_, i) => (
+                <Line
+                  key={`p${i}`}
+                  type="monotone"
+                  dataKey={`p${i}`}
+                  stroke={`var(--color-p${i})`}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </ComposedChart>
+          </ChartContainer>
+
+          <p className="text-xs text-slate-400">
+            {segments.length === 0
+              ? "The bubble fits inside the die over the whole range."
+              : `Clamping takes over on ${segments
+                  .map(([a, b]) => (a === b ? a.toFixed(3) : `${a.toFixed(3)} to ${b.toFixed(3)}`))
+                  .join(", ")} (shaded): beyond these points the die limits hold the bubble back.`}
+          </p>
+        </>
+      )}
+    </section>
+  );
+}
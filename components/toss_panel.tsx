@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { DEFAULT_TOSS_CONFIG, type TossConfig } from "@/lib/toss";
+
+type TossParams = Omit<TossConfig, "dims" | "inclusions">;
+
+const PARAM_FIELDS: { key: keyof TossParams; label: string; min: number; max?: number; step: number }[] = [
+  { key: "restitution", label: "Restitution", min: 0, max: 1, step: 0.05 },
+  { key: "friction", label: "Friction", min: 0, step: 0.05 },
+  { key: "dropHeight", label: "Drop height", min: 0.1, step: 0.5 },
+  { key: "speed", label: "Throw speed", min: 0, step: 0.5 },
+  { key: "spin", label: "Spin (rad/s)", min: 0, step: 1 },
+];
+
+export function TossPanel({
+  disabled,
+  unsettled,
+  onRun,
+}: {
+  disabled: boolean;
+  unsettled: number | null;
+  onRun: (params: TossParams, n: number) => void;
+}) {
+  const [params, setParams] = useState<TossParams>(DEFAULT_TOSS_CONFIG);
+  const [nTosses, setNTosses] = useState(2000);
+
+  return (
+    <div className="flex flex-col gap-2 border rounded-lg p-3 text-xs">
+      <div className="uppercase font-semibold text-sm">Rigid-body tosses</div>
+
+      <p className="text-[11px] text-slate-500">
+        Drops the cuboid, with the centre of mass and inertia shifted by its bubble and inclusions,
+        onto a table and reads the top face once it comes to rest. The landing frequencies are
+        compared against the heuristic model.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1">
+          <span className="uppercase">Tosses</span>
+          <input
+            type="number"
+            min={1}
+            value={nTosses}
+            onChange={(e) => setNTosses(Number(e.target.value))}
+            className="border px-2 py-1 rounded"
+          />
+        </label>
+        {PARAM_FIELDS.map(({ key, label, min, max, step }) => (
+          <label key={key} className="flex flex-col gap-1">
+            <span className="uppercase">{label}</span>
+            <input
+              type="number"
+              min={min}
+              max={max}
+              step={step}
+              value={params[key]}
+              onChange={(e) => setParams((prev) => ({ ...prev, [key]: Number(e.target.value) }))}
+              className="border px-2 py-1 rounded"
+            />
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onRun(params, nTosses)}
+        disabled={disabled}
+        className="self-start border rounded px-3 py-1 uppercase cursor-pointer hover:bg-white/10 disabled:opacity-60 disabled:cursor-not-allowed"
+      >
+        Toss
+      </button>
+
+      <p className="text-[11px] text-slate-500">
+        Only the d6 is supported. Manual weights are not part of the physical model, so compare
+        against fair weights or the dimensions mode.
+      </p>
+
+      {unsettled !== null && unsettled > 0 && (
+        <p className="text-[11px] text-amber-500">
+          {unsettled} toss{unsettled === 1 ? " was" : "es were"} still moving at the time limit and
+          read off as they lay.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SimulationResult } from "@/lib/die";
+import type { InverseDesignResult } from "@/lib/inverse_design";
+import type { PoolSimulationResult } from "@/lib/pool";
+import type { SweepPoint } from "@/lib/sweep";
+import type { TossResult } from "@/lib/toss";
+import type {
+  SimulationProgress,
+  SimulationRequest,
+  SimulationResponse,
+} from "@/types/simulation";
+
+type RunOptions = Omit<Extract<SimulationRequest, { type: "start" }>, "type">;
+type TossOptions = Omit<Extract<SimulationRequest, { type: "toss" }>, "type">;
+type PoolOptions = Omit<Extract<SimulationRequest, { type: "pool" }>, "type">;
+type DesignOptions = Omit<Extract<SimulationRequest, { type: "design" }>, "type">;
+type SweepOptions = Omit<Extract<SimulationRequest, { type: "sweep" }>, "type">;
+
+type PendingRun = {
+  worker: Worker;
+  resolve: (result: null) => void;
+};
+
+// Number of faces on a cuboid die, for the toss progress counts
+const TOSS_FACE_COUNT = 6;
+
+// Run simulations in a Web Worker with progress reporting and cancellation
+export function useSimulationWorker() {
+  const pendingRef = useRef<PendingRun | null>(null);
+  const [progress, setProgress] = useState<SimulationProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Terminate the pending run (if any) and resolve it with null
+  const cancel = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+
+    pendingRef.current = null;
+    pending.worker.terminate();
+    pending.resolve(null);
+
+    setIsRunning(false);
+    setProgress(null);
+  }, []);
+
+  // Send a request to a fresh worker; resolves with its result, or null when cancelled
+  const start = useCallback(
+    <T,>(request: SimulationRequest, faceCount: number) => {
+      cancel();
+
+      return new Promise<T | null>((resolve, reject) => {
+        const worker = new Worker(new URL("../lib/simulate_worker.ts", import.meta.url), {
+          type: "module",
+        });
+        pendingRef.current = { worker, resolve };
+
+        setIsRunning(true);
+        setProgress({ rolled: 0, n: request.n, counts: Array(faceCount).fill(0) });
+
+        // Release the worker once it has answered for the last time
+        const finish = () => {
+          if (pendingRef.current?.worker === worker) {
+            pendingRef.current = null;
+            setIsRunning(false);
+            setProgress(null);
+          }
+          worker.terminate();
+        };
+
+        worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+          const message = event.data;
+          if (pendingRef.current?.worker !== worker) return;
+
+          if (message.type === "progress") {
+            const { rolled, n, counts } = message;
+            setProgress({ rolled, n, counts });
+          } else if (message.type === "error") {
+            finish();
+            reject(new Error(message.message));
+          } else {
+            finish();
+            resolve(message.result as T);
+          }
+        };
+
+        worker.onerror = (event) => {
+          finish();
+          reject(new Error(event.message || "Simulation worker failed."));
+        };
+
+        worker.postMessage(request);
+      });
+    },
+    [cancel]
+  );
+
+  // Start a roll simulation
+  const run = useCallback(
+    (options: RunOptions) =>
+      start<SimulationResult>({ type: "start", ...options }, options.weights.length),
+    [start]
+  );
+
+  // Start a batch of rigid-body tosses
+  const runTosses = useCallback(
+    (options: TossOptions) => start<TossResult>({ type: "toss", ...options }, TOSS_FACE_COUNT),
+    [start]
+  );
+
+  // Start a dice-pool simulation; progress counts cover the possible totals once rolling starts
+  const runPool = useCallback(
+    (options: PoolOptions) => start<PoolSimulationResult>({ type: "pool", ...options }, 0),
+    [start]
+  );
+
+  // Start an inverse-design search; progress counts the finished starts
+  const runDesign = useCallback(
+    (options: DesignOptions) => start<InverseDesignResult>({ type: "design", ...options }, 0),
+    [start]
+  );
+
+  // Start a parameter sweep; progress counts the finished steps
+  const runSweep = useCallback(
+    (options: SweepOptions) => start<SweepPoint[]>({ type: "sweep", ...options }, 0),
+    [start]
+  );
+
+  // Never leave a worker running after unmount
+  useEffect(() => () => pendingRef.current?.worker.terminate(), []);
+
+  return { run, runTosses, runPool, runDesign, runSweep, cancel, progress, isRunning };
+}
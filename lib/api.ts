@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { RequestError } from "@/lib/model_request";
+
+export type ApiErrorCode = "invalid_json" | "invalid_request" | "model_error" | "internal_error";
+
+// Body of every error response
+export type ApiErrorBody = {
+  error: { code: ApiErrorCode; message: string; field?: string };
+};
+
+export function apiError(status: number, code: ApiErrorCode, message: string, field?: string) {
+  const body: ApiErrorBody = { error: { code, message, ...(field ? { field } : {}) } };
+  return NextResponse.json(body, { status });
+}
+
+// POST handler that parses the JSON body and maps thrown errors to structured responses:
+// RequestError -> 400 with the field, other Errors from the model -> 422
+export function jsonHandler(handle: (body: unknown) => unknown) {
+  return async (request: Request) => {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiError(400, "invalid_json", "The request body must be valid JSON.");
+    }
+
+    try {
+      return NextResponse.json(handle(body));
+    } catch (e) {
+      if (e instanceof RequestError) return apiError(400, "invalid_request", e.message, e.field || undefined);
+      if (e instanceof Error) return apiError(422, "model_error", e.message);
+      return apiError(500, "internal_error", "An unexpected error occurred.");
+    }
+  };
+}
@@ -0,0 +1,72 @@
+import { betaQuantile, type Interval } from "@/lib/stats";
+import { defaultRandom, sampleDirichlet, type RandomSource } from "@/lib/random";
+
+export type DirichletPosterior = {
+  alpha: number[];
+  mean: number[];
+  intervals: Interval[];
+  level: number;
+};
+
+// Expand a symmetric prior concentration into a vector
+function priorVector(prior: number | number[], k: number): number[] {
+  const alpha = typeof prior === "number" ? Array(k).fill(prior) : prior;
+  if (alpha.length !== k) throw new Error("prior must have one entry per face.");
+  for (const a of alpha) {
+    if (!Number.isFinite(a) || a <= 0) throw new Error("prior concentrations must be > 0.");
+  }
+  return alpha;
+}
+
+// Dirichlet–multinomial posterior of face probabilities given observed counts
+export function dirichletPosterior(
+  counts: number[],
+  prior: number | number[] = 1,
+  level = 0.95
+): DirichletPosterior {
+  if (!Array.isArray(counts) || counts.length < 2) {
+    throw new Error("counts must have at least two faces.");
+  }
+  for (const c of counts) {
+    if (!Number.isFinite(c)) throw new Error("counts must contain finite numbers.");
+    if (c < 0) throw new Error("counts must be >= 0.");
+  }
+  if (!Number.isFinite(level) || level <= 0 || level >= 1) {
+    throw new Error("level must be in (0, 1).");
+  }
+
+  const alpha = priorVector(prior, counts.length).map((a, i) => a + counts[i]);
+  const total = alpha.reduce((acc, a) => acc + a, 0);
+  const mean = alpha.map((a) => a / total);
+
+  // Marginals are Beta(alpha_i, total - alpha_i); equal-tailed credible intervals
+  const tail = (1 - level) / 2;
+  const intervals = alpha.map((a) => ({
+    lower: betaQuantile(tail, a, total - a),
+    upper: betaQuantile(1 - tail, a, total - a),
+  }));
+
+  return { alpha, mean, intervals, level };
+}
+
+// Posterior probability that every face is within epsilon of 1/d (Monte Carlo)
+export function probabilityFairWithin(
+  alpha: number[],
+  epsilon: number,
+  draws = 20000,
+  rng: RandomSource = defaultRandom
+): number {
+  if (!Number.isFinite(epsilon) || epsilon < 0) throw new Error("epsilon must be >= 0.");
+  if (!Number.isFinite(draws) || draws <= 0) throw new Error("draws must be a positive integer.");
+  draws = Math.floor(draws);
+
+  const fair = 1 / alpha.length;
+  let hits = 0;
+
+  for (let i = 0; i < draws; i++) {
+    const p = sampleDirichlet(alpha, rng);
+    if (p.every((pi) => Math.abs(pi - fair) <= epsilon)) hits++;
+  }
+
+  return hits / draws;
+}
@@ -0,0 +1,134 @@
+import type { Inclusion } from "@/types/bubble";
+import { defaultBubbleK, inclusionComShift, weightsFromDimensions } from "@/lib/die";
+import { getDieGeometry, type DieDims, type DieType } from "@/lib/geometry";
+
+export type FittedParameter = {
+  value: number;
+  standardError: number | null; // null when the data cannot identify the parameter
+  fitted: boolean;
+};
+
+export type ModelFit = {
+  gamma: FittedParameter;
+  k: FittedParameter;
+  logLikelihood: number;
+  probs: number[];
+  iterations: number;
+  converged: boolean;
+};
+
+// Softmax of linear predictors
+function softmax(eta: number[]): number[] {
+  const max = Math.max(...eta);
+  const e = eta.map((x) => Math.exp(x - max));
+  const sum = e.reduce((acc, x) => acc + x, 0);
+  return e.map((x) => x / sum);
+}
+
+// Fit the area exponent γ and bubble constant k by maximum likelihood.
+// The model p_i ∝ area_i^γ · exp(-k <Δ, n_i>) is a multinomial logit in the features
+// (log area_i, -<Δ, n_i>), so the log-likelihood is concave and Newton's method converges.
+export function fitShapeAndBubble(
+  counts: number[],
+  dims: DieDims,
+  inclusions: Inclusion[],
+  dieType: DieType = "d6",
+  start: { gamma?: number; k?: number } = {}
+): ModelFit {
+  const geometry = getDieGeometry(dieType, dims);
+  const d = geometry.faceCount;
+  if (!Array.isArray(counts) || counts.length !== d) {
+    throw new Error(`counts must be an array of length ${d}.`);
+  }
+  for (const c of counts) {
+    if (!Number.isFinite(c) || c < 0) throw new Error("counts must be finite and >= 0.");
+  }
+  const n = counts.reduce((acc, c) => acc + c, 0);
+  if (n <= 0) throw new Error("counts must contain at least one roll.");
+
+  // Per-face features
+  const logAreas = weightsFromDimensions(dims, 1, dieType).map(Math.log);
+  const shift = inclusionComShift(inclusions, dims, dieType) ?? { x: 0, y: 0, z: 0 };
+  const heights = geometry.faceNormals.map((nv) => -(shift.x * nv.x + shift.y * nv.y + shift.z * nv.z));
+  const features = logAreas.map((a, i) => [a, heights[i]]);
+
+  // A parameter is identifiable only if its feature varies across faces
+  const varies = (xs: number[]) => Math.max(...xs) - Math.min(...xs) > 1e-12;
+  const free = [varies(logAreas), varies(heights)];
+  const theta = [start.gamma ?? 1, start.k ?? defaultBubbleK(dims, dieType)];
+  const active = [0, 1].filter((j) => free[j]);
+
+  const logLikelihood = (t: number[]) => {
+    const p = softmax(features.map((x) => t[0] * x[0] + t[1] * x[1]));
+    return counts.reduce((acc, c, i) => (c > 0 ? acc + c * Math.log(p[i]) : acc), 0);
+  };
+
+  // Score and Fisher information (N · covariance of the features under p) of the active parameters
+  const derivatives = (t: number[]) => {
+    const p = softmax(features.map((x) => t[0] * x[0] + t[1] * x[1]));
+    const mean = active.map((j) => p.reduce((acc, pi, i) => acc + pi * features[i][j], 0));
+    const grad = active.map(
+      (j, a) => counts.reduce((acc, c, i) => acc + c * features[i][j], 0) - n * mean[a]
+    );
+    const info = active.map((j, a) =>
+      active.map((l, b) => n * (p.reduce((acc, pi, i) => acc + pi * features[i][j] * features[i][l], 0) - mean[a] * mean[b]))
+    );
+    return { p, grad, info };
+  };
+
+  // Solve a 1x1 or 2x2 linear system; null if singular
+  const solve = (m: number[][], v: number[]): number[] | null => {
+    if (m.length === 1) return Math.abs(m[0][0]) > 1e-14 ? [v[0] / m[0][0]] : null;
+    const det = m[0][0] * m[1][1] - m[0][1] * m[1][0];
+    if (Math.abs(det) < 1e-14) return null;
+    return [(m[1][1] * v[0] - m[0][1] * v[1]) / det, (m[0][0] * v[1] - m[1][0] * v[0]) / det];
+  };
+
+  let iterations = 0;
+  let converged = active.length === 0;
+  let current = logLikelihood(theta);
+
+  for (; iterations < 100 && !converged; iterations++) {
+    const { grad, info } = derivatives(theta);
+    const step = solve(info, grad);
+    if (!step) break;
+
+    // Newton step, halved until the likelihood does not decrease
+    let scale = 1;
+    let next = theta;
+    let value = -Infinity;
+    for (let h = 0; h < 30; h++, scale /= 2) {
+      next = [...theta];
+      active.forEach((j, a) => (next[j] += scale * step[a]));
+      value = logLikelihood(next);
+      if (value >= current - 1e-12) break;
+    }
+
+    const moved = Math.max(...active.map((j) => Math.abs(next[j] - theta[j])));
+    theta.splice(0, 2, ...next);
+    current = value;
+    if (moved < 1e-10) converged = true;
+  }
+
+  // Standard errors from the inverse Fisher information at the estimate
+  const { p, info } = derivatives(theta);
+  const errors = [null, null] as (number | null)[];
+  if (active.length === 1) {
+    if (info[0][0] > 0) errors[active[0]] = 1 / Math.sqrt(info[0][0]);
+  } else if (active.length === 2) {
+    const det = info[0][0] * info[1][1] - info[0][1] * info[1][0];
+    if (det > 0) {
+      errors[0] = Math.sqrt(info[1][1] / det);
+      errors[1] = Math.sqrt(info[0][0] / det);
+    }
+  }
+
+  return {
+    gamma: { value: theta[0], standardError: errors[0], fitted: free[0] },
+    k: { value: theta[1], standardError: errors[1], fitted: free[1] },
+    logLikelihood: current,
+    probs: p,
+    iterations,
+    converged,
+  };
+}
@@ -0,0 +1,90 @@
+import { moments, normalizeWeights, type SimulationResult } from "@/lib/die";
+import { distributionDistance, type DistanceKind } from "@/lib/stats";
+import type { FaceSpec } from "@/types/face";
+import type { Scenario } from "@/types/scenario";
+
+// A named configuration in the comparison workspace
+export type ComparisonEntry = {
+  id: number;
+  name: string;
+  weights: number[];   // The configuration's currentWeights when it was added
+  faces: FaceSpec[];
+  scenario: Scenario;  // To load the configuration back into the page
+  result: SimulationResult | null;
+};
+
+// Chart series keys of an entry (letters and digits only, so they work as CSS variables)
+export function comparisonKeys(id: number) {
+  return {
+    theoretical: `theoretical${id}`,
+    sample: `sample${id}`,
+    theoreticalCdf: `theoreticalCdf${id}`,
+    empiricalCdf: `empiricalCdf${id}`,
+    mean: `mean${id}`,
+    theo: `theo${id}`,
+  };
+}
+
+// Probabilities per face, one theoretical and one empirical column per entry
+export function comparisonProbData(entries: ComparisonEntry[]) {
+  if (entries.length === 0) return [];
+  return entries[0].faces.map((face, i) => {
+    const row: { face: string; [key: string]: string | number } = { face: face.label };
+    for (const entry of entries) {
+      const keys = comparisonKeys(entry.id);
+      row[keys.theoretical] = Number(normalizeWeights(entry.weights)[i].toFixed(4));
+      if (entry.result) row[keys.sample] = Number(entry.result.relFreq[i].toFixed(4));
+    }
+    return row;
+  });
+}
+
+// CDFs over the union of the entries' outcome values
+export function comparisonCdfData(entries: ComparisonEntry[]) {
+  const values = [...new Set(entries.flatMap((e) => e.faces.map((f) => f.value)))].sort((a, b) => a - b);
+
+  // P(X <= x) for probabilities over the given face values
+  const cdfAt = (probs: number[], faces: FaceSpec[], x: number) =>
+    probs.reduce((acc, p, i) => (faces[i].value <= x ? acc + p : acc), 0);
+
+  return values.map((value) => {
+    const row: { value: number; [key: string]: number } = { value };
+    for (const entry of entries) {
+      const keys = comparisonKeys(entry.id);
+      row[keys.theoreticalCdf] = Number(cdfAt(normalizeWeights(entry.weights), entry.faces, value).toFixed(4));
+      if (entry.result) {
+        row[keys.empiricalCdf] = Number(cdfAt(entry.result.relFreq, entry.faces, value).toFixed(4));
+      }
+    }
+    return row;
+  });
+}
+
+// Running means over the union of sample points, with each entry's E[X] as a flat line
+export function comparisonMeanData(entries: ComparisonEntry[]) {
+  const rows = new Map<number, { n: number; [key: string]: number }>();
+  const simulated = entries.filter((e) => e.result);
+
+  for (const entry of simulated) {
+    const { runningMean, sampleStep, counts } = entry.result!;
+    const total = counts.reduce((acc, c) => acc + c, 0);
+    runningMean.forEach((m, idx) => {
+      const n = Math.min((idx + 1) * sampleStep, total);
+      const row = rows.get(n) ?? { n };
+      row[comparisonKeys(entry.id).mean] = Number(m.toFixed(4));
+      rows.set(n, row);
+    });
+  }
+
+  const sorted = [...rows.values()].sort((a, b) => a.n - b.n);
+  for (const entry of simulated) {
+    const theo = moments(normalizeWeights(entry.weights), entry.faces.map((f) => f.value)).mean;
+    for (const row of sorted) row[comparisonKeys(entry.id).theo] = Number(theo.toFixed(4));
+  }
+  return sorted;
+}
+
+// Distance from each distribution (rows) to each other (columns)
+export function pairwiseDistances(probs: number[][], kind: DistanceKind): number[][] {
+  return probs.map((p) => probs.map((q) => distributionDistance(p, q, kind)));
+}
@@ -1,13 +1,13 @@
-import type { BubbleConfig, Vec3 } from "@/types/bubble";
-
-const FACE_NORMS: readonly Vec3[] = [
-  { x: 0, y: 1, z: 0 },  // Face 1 (+Y)
-  { x: 1, y: 0, z: 0 },  // Face 2 (+X)
-  { x: 0, y: 0, z: 1 },  // Face 3 (+Z)
-  { x: 0, y: 0, z: -1 }, // Face 4 (-Z)
-  { x: -1, y: 0, z: 0 }, // Face 5 (-X)
-  { x: 0, y: -1, z: 0 }, // Face 6 (-Y)
-];
+import type { BubbleConfig, Inclusion, Vec3 } from "@/types/bubble";
+import { defaultRandom, type RandomSource } from "@/lib/random";
+import { getDieGeometry, type DieDims, type DieType } from "@/lib/geometry";
+import {
+  bubbleAsInclusion,
+  centreOfMassShift,
+  clampInclusionToDie,
+  inclusionVolume,
+} from "@/lib/inclusions";
+import { massProperties } from "@/lib/mass_properties";
 
 // Clamp value v to the range [min, max]
 function clamp(v: number, min: number, max: number): number {
@@ -42,12 +42,104 @@ export function invBySeqSearch(cdf: number[], u: number): number {
   return cdf.length - 1;
 }
 
+// Inverse CDF by binary search (first index with cdf[i] >= u)
+export function invByBinarySearch(cdf: number[], u: number): number {
+  let lo = 0;
+  let hi = cdf.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (u <= cdf[mid]) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+export type AliasTable = { prob: number[]; alias: number[] };
+
+// Build Vose alias table from probabilities
+export function buildAliasTable(probs: number[]): AliasTable {
+  const p = normalizeWeights(probs);
+  const d = p.length;
+  const prob = new Array<number>(d).fill(1);
+  const alias = Array.from({ length: d }, (_, i) => i);
+
+  // Scaled probabilities, split into under- and over-full columns
+  const scaled = p.map((pi) => pi * d);
+  const small: number[] = [];
+  const large: number[] = [];
+  scaled.forEach((q, i) => (q < 1 ? small : large).push(i));
+
+  while (small.length > 0 && large.length > 0) {
+    const s = small.pop()!;
+    const l = large.pop()!;
+
+    prob[s] = scaled[s];
+    alias[s] = l;
+
+    scaled[l] = scaled[l] + scaled[s] - 1;
+    (scaled[l] < 1 ? small : large).push(l);
+  }
+
+  // Leftovers are full columns up to rounding error
+  for (const i of [...small, ...large]) prob[i] = 1;
+
+  return { prob, alias };
+}
+
+// Sample from alias table using a single uniform u in [0, 1)
+export function sampleAlias(table: AliasTable, u: number): number {
+  const d = table.prob.length;
+  const x = u * d;
+  const i = Math.min(Math.floor(x), d - 1);
+  return x - i < table.prob[i] ? i : table.alias[i];
+}
+
+export type SamplerKind = "sequential" | "binary" | "alias";
+
+export const SAMPLER_LABELS: Record<SamplerKind, string> = {
+  sequential: "Inverse CDF (sequential search)",
+  binary: "Inverse CDF (binary search)",
+  alias: "Alias method (Vose)",
+};
+
+export const SAMPLER_KINDS = Object.keys(SAMPLER_LABELS) as SamplerKind[];
+
+// Whether value names a sampler; own keys only, so "toString" and the like are not samplers
+export function isSamplerKind(value: unknown): value is SamplerKind {
+  return typeof value === "string" && Object.hasOwn(SAMPLER_LABELS, value);
+}
+
+// Build a face sampler (uniform -> face index) for the given strategy
+export function createSampler(probs: number[], kind: SamplerKind): (u: number) => number {
+  switch (kind) {
+    case "sequential": {
+      const cdf = buildCDF(probs);
+      return (u) => invBySeqSearch(cdf, u);
+    }
+    case "binary": {
+      const cdf = buildCDF(probs);
+      return (u) => invByBinarySearch(cdf, u);
+    }
+    case "alias": {
+      const table = buildAliasTable(probs);
+      return (u) => sampleAlias(table, u);
+    }
+    default:
+      throw new Error(`Unknown sampler: ${kind as string}.`);
+  }
+}
+
 // Clamp bubble radius and offset to fit within die dimensions
 export function clampBubbleToDie(
   bubble: BubbleConfig,
-  die: { lx: number; ly: number; lz: number }
+  die: DieDims,
+  dieType: DieType = "d6"
 ): BubbleConfig {
   if (!bubble.enabled) return bubble;
+  if (dieType !== "d6") {
+    const { offset, radius } = clampInclusionToDie(bubbleAsInclusion(bubble), die, dieType);
+    return { ...bubble, offset, radius };
+  }
 
   // Clean die dimensions
   const lx = Math.max(die.lx, 0.01);
@@ -90,53 +182,68 @@ export function applyBubblePhysics(
   baseWeights: number[],
   bubble?: BubbleConfig,
   kBase?: number,
-  die: { lx: number; ly: number; lz: number } = { lx: 1, ly: 1, lz: 1 }
+  die: DieDims = { lx: 1, ly: 1, lz: 1 },
+  dieType: DieType = "d6"
 ): number[] {
   if (!bubble?.enabled) return baseWeights;
-  if (!Array.isArray(baseWeights) || baseWeights.length !== 6) return baseWeights;
+  const effectiveBubble = clampBubbleToDie(bubble, die, dieType);
+  return applyInclusionPhysics(baseWeights, [bubbleAsInclusion(effectiveBubble)], kBase, die, dieType);
+}
 
-  for (const w of baseWeights) {
-    if (!Number.isFinite(w)) throw new Error("baseWeights must contain finite numbers.");
-    if (w < 0) throw new Error("baseWeights must be >= 0.");
-  }
+// Default k of the exponential bubble model (inradius is the min half-size of a box)
+export function defaultBubbleK(die: DieDims, dieType: DieType = "d6"): number {
+  return 8 / getDieGeometry(dieType, die).inradius;
+}
 
+// Centre-of-mass shift caused by inclusions, or null if none of them changes the mass
+export function inclusionComShift(
+  inclusions: Inclusion[],
+  die: DieDims,
+  dieType: DieType = "d6"
+): Vec3 | null {
   // Clean die dimensions
   const lx = Math.max(die.lx, 0.01);
   const ly = Math.max(die.ly, 0.01);
   const lz = Math.max(die.lz, 0.01);
 
-  // Half-dimensions
-  const hx = lx / 2;
-  const hy = ly / 2;
-  const hz = lz / 2;
-
-  // Clamp bubble to die
-  const effectiveBubble = clampBubbleToDie(bubble, { lx, ly, lz });
-  const r = effectiveBubble.radius;
-  if (r <= 0) return baseWeights;
+  // Clamp inclusions to die; those of body density or no size change nothing
+  const effective = inclusions
+    .map((inc) => clampInclusionToDie(inc, { lx, ly, lz }, dieType))
+    .filter((inc) => inc.density !== 1 && inclusionVolume(inc) > 0);
+  if (effective.length === 0) return null;
+
+  // Voids push the centre of mass away, dense inserts pull it toward them.
+  // The d6 is a rounded cuboid; the other dice have sharp edges
+  return dieType === "d6"
+    ? massProperties({ lx, ly, lz }, effective).centreOfMass
+    : centreOfMassShift(effective, getDieGeometry(dieType, { lx, ly, lz }).volume);
+}
 
-  // Volumes
-  const vDie = lx * ly * lz;
-  const vBubble = (4 / 3) * Math.PI * r * r * r;
-  const vSolid = Math.max(vDie - vBubble, 1e-12);
+// Apply the centre-of-mass shift of a set of inclusions to baseWeights and return new weights
+export function applyInclusionPhysics(
+  baseWeights: number[],
+  inclusions: Inclusion[],
+  kBase?: number,
+  die: DieDims = { lx: 1, ly: 1, lz: 1 },
+  dieType: DieType = "d6"
+): number[] {
+  const geometry = getDieGeometry(dieType, die);
+  if (!Array.isArray(baseWeights) || baseWeights.length !== geometry.faceCount) return baseWeights;
 
-  // Alpha ratio
-  const alpha = vBubble / vSolid;
+  for (const w of baseWeights) {
+    if (!Number.isFinite(w)) throw new Error("baseWeights must contain finite numbers.");
+    if (w < 0) throw new Error("baseWeights must be >= 0.");
+  }
 
-  // Center of mass shift due to bubble
-  const comShift: Vec3 = {
-    x: -alpha * effectiveBubble.offset.x,
-    y: -alpha * effectiveBubble.offset.y,
-    z: -alpha * effectiveBubble.offset.z,
-  };
+  const comShift = inclusionComShift(inclusions, die, dieType);
+  if (comShift === null) return baseWeights;
 
   // k parameter for exponential weight adjustment
-  const minHalf = Math.min(hx, hy, hz);
-  const k = Number.isFinite(kBase) ? (kBase as number) : 8 / minHalf;
+  const k = Number.isFinite(kBase) ? (kBase as number) : defaultBubbleK(die, dieType);
 
   // Compute new weights
   const newWeights = baseWeights.map((w, i) => {
-    const n = FACE_NORMS[i];
+    const n = geometry.faceNormals[i];
     const dh = dot(comShift, n);
     const mult = Math.exp(-k * dh);
     const out = w * mult;
@@ -165,7 +272,7 @@ export function normalizeWeights(weights: number[]): number[] {
 }
 
 // Roll a die based on given probabilities
-export function rollFromProbs(probs: number[]): number {
+export function rollFromProbs(probs: number[], rng: RandomSource = defaultRandom): number {
   if (!Array.isArray(probs) || probs.length === 0) {
     throw new Error("Probs must be a non-empty array.");
   }
@@ -183,7 +290,7 @@ export function rollFromProbs(probs: number[]): number {
     probs = probs.map((p) => p / s);
   }
 
-  const u = Math.random();
+  const u = rng();
   let cumulative = 0;
   for (let i = 0; i < probs.length; i++) {
     cumulative += probs[i];
@@ -194,55 +301,178 @@ export function rollFromProbs(probs: number[]): number {
 }
 
 // Roll a weighted die given weights
-export function rollWeightedDie(weights: number[]): number {
+export function rollWeightedDie(weights: number[], rng: RandomSource = defaultRandom): number {
   const probs = normalizeWeights(weights);
-  return rollFromProbs(probs);
+  return rollFromProbs(probs, rng);
 }
 
-// Simulate rolling a weighted die n times and return statistics
-export function simulateRolls(weights: number[], n: number, sampleStep = 10) {
-  if (!Number.isFinite(n) || n <= 0) throw new Error("n must be a positive integer.");
-  n = Math.floor(n);
+export type SimulationResult = {
+  counts: number[];
+  relFreq: number[];
+  probs: number[];
+  runningMean: number[];
+  sampleStep: number;
+  sampler: SamplerKind;
+};
+
+// Default outcome values x_i = i + 1
+export function defaultFaceValues(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i + 1);
+}
+
+// Validate outcome values against the number of faces
+function checkFaceValues(values: number[], count: number) {
+  if (!Array.isArray(values) || values.length !== count) {
+    throw new Error("values must have one entry per face.");
+  }
+  for (const x of values) {
+    if (!Number.isFinite(x)) throw new Error("values must be finite numbers.");
+  }
+}
+
+// Expected value and variance of the outcome values under the given probabilities
+export function moments(
+  probs: number[],
+  values: number[] = defaultFaceValues(probs.length)
+): { mean: number; variance: number } {
+  checkFaceValues(values, probs.length);
+
+  const mean = probs.reduce((sum, p, i) => sum + p * values[i], 0);
+  const second = probs.reduce((sum, p, i) => sum + p * values[i] * values[i], 0);
+
+  return { mean, variance: second - mean * mean };
+}
 
+// Probability mass over distinct outcome values, in ascending order of value
+export function valueDistribution(
+  probs: number[],
+  values: number[] = defaultFaceValues(probs.length)
+): { value: number; p: number }[] {
+  checkFaceValues(values, probs.length);
+
+  const mass = new Map<number, number>();
+  probs.forEach((p, i) => mass.set(values[i], (mass.get(values[i]) ?? 0) + p));
+
+  return [...mass.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([value, p]) => ({ value, p }));
+}
+
+// Create an accumulator that rolls a weighted die in batches and keeps statistics,
+// optionally continuing a previous result of the same die
+export function createRollAccumulator(
+  weights: number[],
+  sampleStep = 10,
+  rng: RandomSource = defaultRandom,
+  sampler: SamplerKind = "sequential",
+  values: number[] = defaultFaceValues(weights.length),
+  previous?: SimulationResult
+) {
   if (!Number.isFinite(sampleStep) || sampleStep <= 0) throw new Error("sampleStep must be >= 1.");
   sampleStep = Math.floor(sampleStep);
+  checkFaceValues(values, weights.length);
 
   // Initialize counts and running mean
   const k = weights.length;
-  const counts = Array(k).fill(0) as number[];
-  const runningMean: number[] = [];
+  let counts = Array(k).fill(0) as number[];
+  let runningMean: number[] = [];
+  let rolled = 0;
+  let sumValues = 0;
+
+  if (previous) {
+    if (previous.counts.length !== k) throw new Error("previous must have one count per face.");
+    if (!Number.isInteger(previous.sampleStep) || previous.sampleStep < 1 || sampleStep % previous.sampleStep !== 0) {
+      throw new Error("sampleStep must be a multiple of previous.sampleStep.");
+    }
+
+    counts = [...previous.counts];
+    counts.forEach((c, i) => {
+      rolled += c;
+      sumValues += c * values[i];
+    });
+    // Only full steps, thinned to the new step; the trailing partial point is recomputed by result()
+    const stride = sampleStep / previous.sampleStep;
+    runningMean = previous.runningMean
+      .filter((_, j) => (j + 1) % stride === 0)
+      .slice(0, Math.floor(rolled / sampleStep));
+  }
 
   // Normalize weights to probabilities
   const probs = normalizeWeights(weights);
 
-  // Build CDF for sampling
-  const cdf = buildCDF(probs);
+  // Build face sampler for the chosen strategy
+  const sample = createSampler(probs, sampler);
 
-  let sumValues = 0;
+  // Roll the die `batch` more times
+  const roll = (batch: number) => {
+    if (!Number.isFinite(batch) || batch < 0) throw new Error("batch must be >= 0.");
+    batch = Math.floor(batch);
 
-  // Simulate rolls
-  for (let i = 0; i < n; i++) {
-    const u = Math.random();
-    const idx = invBySeqSearch(cdf, u);
+    for (let i = 0; i < batch; i++) {
+      const idx = sample(rng());
 
-    counts[idx]++;
-    sumValues += idx + 1;
+      counts[idx]++;
+      sumValues += values[idx];
+      rolled++;
 
-    if ((i + 1) % sampleStep === 0 || i === n - 1) {
-      runningMean.push(sumValues / (i + 1));
+      if (rolled % sampleStep === 0) {
+        runningMean.push(sumValues / rolled);
+      }
     }
-  }
+  };
+
+  // Snapshot of the statistics so far (last partial step included in runningMean)
+  const result = (): SimulationResult => {
+    const mean = [...runningMean];
+    if (rolled % sampleStep !== 0) mean.push(sumValues / rolled);
+
+    return {
+      counts: [...counts],
+      relFreq: counts.map((c) => (rolled > 0 ? c / rolled : 0)),
+      probs: [...probs],
+      runningMean: mean,
+      sampleStep,
+      sampler,
+    };
+  };
+
+  return {
+    roll,
+    result,
+    get rolled() {
+      return rolled;
+    },
+    get counts(): readonly number[] {
+      return counts;
+    },
+  };
+}
+
+export type RollAccumulator = ReturnType<typeof createRollAccumulator>;
 
-  // Compute relative frequencies
-  const relFreq = counts.map((c) => c / n);
+// Simulate rolling a weighted die n times and return statistics
+export function simulateRolls(
+  weights: number[],
+  n: number,
+  sampleStep = 10,
+  rng: RandomSource = defaultRandom,
+  sampler: SamplerKind = "sequential",
+  values: number[] = defaultFaceValues(weights.length)
+): SimulationResult {
+  if (!Number.isFinite(n) || n <= 0) throw new Error("n must be a positive integer.");
+  n = Math.floor(n);
 
-  return { counts, relFreq, probs, runningMean, sampleStep };
+  const acc = createRollAccumulator(weights, sampleStep, rng, sampler, values);
+  acc.roll(n);
+
+  return acc.result();
 }
 
 // Compute face weights from die dimensions and exponent
 export function weightsFromDimensions(
-  dimensions: { lx: number; ly: number; lz: number },
-  exponent: number
+  dimensions: DieDims,
+  exponent: number,
+  dieType: DieType = "d6"
 ): number[] {
   if (!Number.isFinite(exponent)) throw new Error("exponent must be a finite number.");
 
@@ -252,12 +482,17 @@ export function weightsFromDimensions(
     lz: Math.max(dimensions.lz, 0.01),
   };
 
+  const scale = (a: number) => Math.pow(a, exponent);
+
+  // General polyhedra: weight each face by its area
+  if (dieType !== "d6") {
+    return getDieGeometry(dieType, clean).faceAreas.map(scale);
+  }
+
   const areaXZ = clean.lx * clean.lz; // faces 1 & 6 (±Y)
   const areaYZ = clean.ly * clean.lz; // faces 2 & 5 (±X)
   const areaXY = clean.lx * clean.ly; // faces 3 & 4 (±Z)
 
-  const scale = (a: number) => Math.pow(a, exponent);
-
   return [
     scale(areaXZ), // Face 1
     scale(areaYZ), // Face 2
@@ -307,4 +542,70 @@ export function dimensionsFromWeights(
     ly: Math.max(ly, 0.01),
     lz: Math.max(lz, 0.01),
   };
-}
\ No newline at end of file
+}
+
+export type CuboidProjection = {
+  target: number[];     // Normalised target
+  projected: number[];  // Closest distribution with equal opposite faces (L2)
+  dims: DieDims;        // Unit-volume cuboid for the projected distribution
+  achieved: number[];   // Distribution the cuboid actually gives
+  errors: number[];     // achieved - target per face
+  violations: string[]; // Why the target could not be matched exactly
+};
+
+// Opposite face pairs of the d6 (faces 1-6, 2-5, 3-4)
+const OPPOSITE_PAIRS: [number, number][] = [[0, 5], [1, 4], [2, 3]];
+
+// Project target probabilities onto what a cuboid can produce and find that cuboid
+export function projectToCuboid(
+  target: number[],
+  exponent: number,
+  labels: string[] = ["1", "2", "3", "4", "5", "6"]
+): CuboidProjection {
+  if (!Array.isArray(target) || target.length !== 6) {
+    throw new Error("target must be an array of length 6.");
+  }
+  const p = normalizeWeights(target);
+  const violations: string[] = [];
+  const tolerance = 1e-9;
+
+  // Opposite faces share an area, so the best we can do is split each pair evenly
+  const projected = [...p];
+  for (const [i, j] of OPPOSITE_PAIRS) {
+    const mean = (p[i] + p[j]) / 2;
+    projected[i] = mean;
+    projected[j] = mean;
+    if (Math.abs(p[i] - p[j]) > tolerance) {
+      violations.push(
+        `Faces ${labels[i]} and ${labels[j]} are opposite and always have the same area, so both get ${mean.toFixed(4)}.`
+      );
+    }
+  }
+
+  // Zero weights would need a zero-length side
+  const floor = 1e-9;
+  if (projected.some((q) => q < floor)) {
+    violations.push("A probability of 0 needs a side of zero length; the shortest allowed side is used.");
+  }
+  const weights = projected.map((q) => Math.max(q, floor));
+
+  // Only the side ratios matter: scale the weights so the pair areas multiply to 1 (unit volume)
+  const areaProduct = OPPOSITE_PAIRS.reduce((acc, [i]) => acc * Math.pow(weights[i], 1 / exponent), 1);
+  const c = Math.pow(areaProduct, -exponent / 3);
+  const dims = dimensionsFromWeights(weights.map((w) => w * c), exponent);
+
+  if ([dims.lx, dims.ly, dims.lz].some((l) => l <= 0.01 + 1e-12)) {
+    violations.push("A side would be shorter than 0.01 and was clamped, so the pair ratios are off.");
+  }
+
+  const achieved = normalizeWeights(weightsFromDimensions(dims, exponent));
+  const errors = achieved.map((a, i) => a - p[i]);
+
+  if (violations.length > 0) {
+    violations.push(
+      "A cuboid has three side lengths and only their ratios matter: two free parameters for six probabilities."
+    );
+  }
+
+  return { target: p, projected, dims, achieved, errors, violations };
+}
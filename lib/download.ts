@@ -0,0 +1,146 @@
+// Browser helpers for saving files and chart images
+
+// Resolution multiplier for PNG exports
+const PNG_SCALE = 2;
+
+// How long a download's object URL stays valid after the click
+const REVOKE_DELAY_MS = 1000;
+
+// Presentation properties copied inline so the SVG renders without the page's CSS
+const INLINE_STYLES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-dasharray",
+  "stroke-opacity",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+];
+
+export type LegendItem = { label: string; color: string };
+
+// Save text or a blob under the given file name
+export function downloadFile(name: string, content: string | Blob, type = "text/plain"): void {
+  const blob = typeof content === "string" ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.style.display = "none";
+  document.body.appendChild(a);
+  a.click();
+
+  // Some browsers cancel the download if the URL goes before they have started reading it
+  setTimeout(() => {
+    a.remove();
+    URL.revokeObjectURL(url);
+  }, REVOKE_DELAY_MS);
+}
+
+// File name from a chart title, e.g. "CDF of the Sum" -> "cdf-of-the-sum"
+export function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "chart";
+}
+
+// Background colour of the closest ancestor that has one
+function backgroundOf(element: Element): string {
+  for (let el: Element | null = element; el; el = el.parentElement) {
+    const colour = getComputedStyle(el).backgroundColor;
+    if (colour && colour !== "transparent" && colour !== "rgba(0, 0, 0, 0)") return colour;
+  }
+  return "white";
+}
+
+// Standalone SVG markup of the chart inside container, with styles inlined and a legend below
+export function chartToSvg(container: HTMLElement, legend: LegendItem[] = []): { svg: string; width: number; height: number } {
+  const source = container.querySelector<SVGSVGElement>("svg.recharts-surface");
+  if (!source) throw new Error("No chart to export.");
+
+  const { width, height } = source.getBoundingClientRect();
+  const clone = source.cloneNode(true) as SVGSVGElement;
+
+  // Resolve CSS variables and classes to inline styles, element by element
+  const originals = [source, ...source.querySelectorAll("*")];
+  const copies = [clone, ...clone.querySelectorAll("*")];
+  originals.forEach((original, i) => {
+    const computed = getComputedStyle(original);
+    const style = INLINE_STYLES.map((p) => `${p}:${computed.getPropertyValue(p)}`).join(";");
+    copies[i].setAttribute("style", style);
+  });
+
+  const textColour = getComputedStyle(container).color;
+  const legendRow = 18;
+  const legendHeight = legend.length > 0 ? legendRow * Math.ceil(legend.length / 3) + 8 : 0;
+  const fullHeight = height + legendHeight;
+
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(fullHeight));
+  clone.setAttribute("viewBox", `0 0 ${width} ${fullHeight}`);
+
+  const ns = "http://www.w3.org/2000/svg";
+  const background = document.createElementNS(ns, "rect");
+  background.setAttribute("width", "100%");
+  background.setAttribute("height", "100%");
+  background.setAttribute("fill", backgroundOf(container));
+  clone.insertBefore(background, clone.firstChild);
+
+  // Three legend entries per row
+  legend.forEach((item, i) => {
+    const x = 16 + (i % 3) * (width / 3);
+    const y = height + 8 + Math.floor(i / 3) * legendRow;
+    const swatch = document.createElementNS(ns, "rect");
+    swatch.setAttribute("x", String(x));
+    swatch.setAttribute("y", String(y));
+    swatch.setAttribute("width", "10");
+    swatch.setAttribute("height", "10");
+    swatch.setAttribute("fill", item.color);
+    const text = document.createElementNS(ns, "text");
+    text.setAttribute("x", String(x + 16));
+    text.setAttribute("y", String(y + 9));
+    text.setAttribute("style", `fill:${textColour};font-size:12px;font-family:sans-serif`);
+    text.textContent = item.label;
+    clone.append(swatch, text);
+  });
+
+  return { svg: new XMLSerializer().serializeToString(clone), width, height: fullHeight };
+}
+
+// Save the chart inside container as an SVG file
+export function downloadChartSvg(container: HTMLElement, name: string, legend: LegendItem[] = []): void {
+  downloadFile(`${name}.svg`, chartToSvg(container, legend).svg, "image/svg+xml");
+}
+
+// Save the chart inside container as a PNG file, rendered from its SVG
+export async function downloadChartPng(container: HTMLElement, name: string, legend: LegendItem[] = []): Promise<void> {
+  const { svg, width, height } = chartToSvg(container, legend);
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Could not render the chart."));
+      image.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(width * PNG_SCALE);
+    canvas.height = Math.ceil(height * PNG_SCALE);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Could not render the chart.");
+    context.scale(PNG_SCALE, PNG_SCALE);
+    context.drawImage(image, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+    if (!blob) throw new Error("Could not render the chart.");
+    downloadFile(`${name}.png`, blob);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,83 @@
+import type { SamplerKind } from "@/lib/die";
+import type { FaceSpec } from "@/types/face";
+import type { Scenario } from "@/types/scenario";
+
+type Moments = { mean: number; variance: number };
+
+// Raw numbers of one run (or imported log) with the configuration it was compared against
+export type RunExport = {
+  exportedAt: string;
+  source: string;              // "simulation", or the name of the imported data
+  config: Scenario;
+  seed: string | null;
+  sampler: SamplerKind | null;
+  faces: FaceSpec[];
+  weights: number[];
+  counts: number[];
+  relFreq: number[];
+  probs: number[];
+  runningMean: number[] | null;
+  sampleStep: number;          // Rolls between runningMean entries
+  moments: { theoretical: Moments | null; empirical: Moments | null };
+};
+
+// Quote a CSV field when it contains a delimiter, quote or line break
+function csvField(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(values: (string | number | null)[]): string {
+  return values.map(csvField).join(",");
+}
+
+// Pretty-printed JSON of a run export
+export function runExportToJson(data: RunExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+// CSV of a run export: "# section" lines followed by a header row and the data rows
+export function runExportToCsv(data: RunExport): string {
+  const total = data.counts.reduce((acc, c) => acc + c, 0);
+  const lines: string[] = [];
+
+  lines.push("# run");
+  lines.push(csvRow(["key", "value"]));
+  lines.push(csvRow(["exportedAt", data.exportedAt]));
+  lines.push(csvRow(["source", data.source]));
+  lines.push(csvRow(["seed", data.seed]));
+  lines.push(csvRow(["sampler", data.sampler]));
+  lines.push(csvRow(["rolls", total]));
+  lines.push(csvRow(["dieType", data.config.dieType]));
+  lines.push(csvRow(["mode", data.config.mode]));
+  lines.push(csvRow(["config", JSON.stringify(data.config)]));
+
+  lines.push("");
+  lines.push("# faces");
+  lines.push(csvRow(["face", "label", "value", "weight", "prob", "count", "relFreq"]));
+  data.faces.forEach((face, i) => {
+    lines.push(
+      csvRow([i + 1, face.label, face.value, data.weights[i], data.probs[i], data.counts[i], data.relFreq[i]])
+    );
+  });
+
+  lines.push("");
+  lines.push("# moments");
+  lines.push(csvRow(["kind", "mean", "variance"]));
+  for (const kind of ["theoretical", "empirical"] as const) {
+    const m = data.moments[kind];
+    lines.push(csvRow([kind, m?.mean ?? null, m?.variance ?? null]));
+  }
+
+  if (data.runningMean) {
+    lines.push("");
+    lines.push("# runningMean");
+    lines.push(csvRow(["n", "mean"]));
+    data.runningMean.forEach((m, idx) => {
+      lines.push(csvRow([Math.min((idx + 1) * data.sampleStep, total), m]));
+    });
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,270 @@
+import type { Vec3 } from "@/types/bubble";
+
+export type DieType = "d4" | "d6" | "d8" | "d10" | "d12" | "d20";
+
+export const DIE_TYPES: readonly DieType[] = ["d4", "d6", "d8", "d10", "d12", "d20"];
+
+export const DIE_TYPE_LABELS: Record<DieType, string> = {
+  d4: "d4 (tetrahedron)",
+  d6: "d6 (cuboid)",
+  d8: "d8 (octahedron)",
+  d10: "d10 (pentagonal trapezohedron)",
+  d12: "d12 (dodecahedron)",
+  d20: "d20 (icosahedron)",
+};
+
+export type DieDims = { lx: number; ly: number; lz: number };
+
+// Edge rounding of the cuboid die, as a fraction of its smallest side
+export const EDGE_RADIUS_RATIO = 0.15;
+
+// Edge radius of a rounded cuboid with the given dimensions
+export function edgeRadius(dims: DieDims, ratio = EDGE_RADIUS_RATIO): number {
+  return ratio * Math.min(dims.lx, dims.ly, dims.lz);
+}
+
+export type DieGeometry = {
+  type: DieType;
+  faceCount: number;
+  vertices: Vec3[];
+  faces: number[][];     // Vertex indices per face, counter-clockwise seen from outside
+  faceNormals: Vec3[];   // Outward unit normals
+  faceAreas: number[];
+  faceCentres: Vec3[];
+  faceDistances: number[]; // Distance of each face plane from the centre
+  inradius: number;      // Distance from the centre to the nearest face plane
+  volume: number;
+};
+
+type Polyhedron = { vertices: Vec3[]; faces: number[][] };
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+// Vector helpers
+const v = (x: number, y: number, z: number): Vec3 => ({ x, y, z });
+const add = (a: Vec3, b: Vec3): Vec3 => v(a.x + b.x, a.y + b.y, a.z + b.z);
+const sub = (a: Vec3, b: Vec3): Vec3 => v(a.x - b.x, a.y - b.y, a.z - b.z);
+const scale = (a: Vec3, s: number): Vec3 => v(a.x * s, a.y * s, a.z * s);
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: Vec3, b: Vec3): Vec3 =>
+  v(a.y * b.z - a.z * b.y, a.z * b.x - a.x * b.z, a.x * b.y - a.y * b.x);
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+const normalize = (a: Vec3): Vec3 => scale(a, 1 / length(a));
+
+// All sign combinations of (±x, ±y, ±z)
+function signs(x: number, y: number, z: number): Vec3[] {
+  const out: Vec3[] = [];
+  for (const sx of x === 0 ? [1] : [1, -1])
+    for (const sy of y === 0 ? [1] : [1, -1])
+      for (const sz of z === 0 ? [1] : [1, -1]) out.push(v(sx * x, sy * y, sz * z));
+  return out;
+}
+
+// Cyclic permutations of (x, y, z) with all sign combinations
+function cyclicSigns(x: number, y: number, z: number): Vec3[] {
+  return [...signs(x, y, z), ...signs(z, x, y), ...signs(y, z, x)];
+}
+
+// Build faces of a convex polyhedron from its vertices and face normal directions
+function facesFromNormals(vertices: Vec3[], normals: Vec3[]): number[][] {
+  return normals.map((dir) => {
+    const n = normalize(dir);
+    const d = Math.max(...vertices.map((p) => dot(p, n)));
+    const ids = vertices.flatMap((p, i) => (Math.abs(dot(p, n) - d) < 1e-9 ? [i] : []));
+
+    // Order counter-clockwise around the outward normal
+    const centre = scale(ids.reduce((acc, i) => add(acc, vertices[i]), v(0, 0, 0)), 1 / ids.length);
+    const u = normalize(sub(vertices[ids[0]], centre));
+    const w = cross(n, u);
+    const angle = (i: number) => {
+      const r = sub(vertices[i], centre);
+      return Math.atan2(dot(r, w), dot(r, u));
+    };
+
+    return ids.sort((a, b) => angle(a) - angle(b));
+  });
+}
+
+// Number faces so that opposite faces sum to faceCount + 1 where they exist
+function numberFaces(poly: Polyhedron): Polyhedron {
+  const normalOf = (f: number[]) => {
+    const [a, b, c] = f.map((i) => poly.vertices[i]);
+    return normalize(cross(sub(b, a), sub(c, a)));
+  };
+
+  // Top faces first, then around the vertical axis
+  const key = (f: number[]) => {
+    const n = normalOf(f);
+    return [-Math.round(n.y * 1e6), Math.atan2(n.z, n.x)];
+  };
+  const sorted = [...poly.faces].sort((a, b) => {
+    const [ya, ta] = key(a);
+    const [yb, tb] = key(b);
+    return ya !== yb ? ya - yb : ta - tb;
+  });
+
+  const count = sorted.length;
+  const out: number[][] = new Array(count);
+  const used = new Set<number>();
+  let next = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (used.has(i)) continue;
+    used.add(i);
+
+    const n = normalOf(sorted[i]);
+    const opposite = sorted.findIndex((f, j) => !used.has(j) && dot(normalOf(f), n) < -1 + 1e-9);
+
+    if (opposite < 0) {
+      out[next++] = sorted[i];
+    } else {
+      used.add(opposite);
+      out[next] = sorted[i];
+      out[count - 1 - next] = sorted[opposite];
+      next++;
+    }
+  }
+
+  return { vertices: poly.vertices, faces: out.filter(Boolean) };
+}
+
+// Rescale a polyhedron to unit volume
+function unitVolume(poly: Polyhedron): Polyhedron {
+  const vol = measure(poly).volume;
+  const s = 1 / Math.cbrt(vol);
+  return { vertices: poly.vertices.map((p) => scale(p, s)), faces: poly.faces };
+}
+
+// Face normals, areas, centres and volume of a convex polyhedron centred at the origin
+function measure(poly: Polyhedron) {
+  const faceNormals: Vec3[] = [];
+  const faceAreas: number[] = [];
+  const faceCentres: Vec3[] = [];
+  const faceDistances: number[] = [];
+  let volume = 0;
+
+  for (const face of poly.faces) {
+    const pts = face.map((i) => poly.vertices[i]);
+
+    // Newell's method: area vector of the polygon
+    let area = v(0, 0, 0);
+    for (let i = 0; i < pts.length; i++) {
+      area = add(area, cross(pts[i], pts[(i + 1) % pts.length]));
+    }
+    area = scale(area, 0.5);
+
+    const a = length(area);
+    const n = scale(area, 1 / a);
+    const centre = scale(pts.reduce((acc, p) => add(acc, p), v(0, 0, 0)), 1 / pts.length);
+    const d = dot(pts[0], n);
+
+    faceNormals.push(n);
+    faceAreas.push(a);
+    faceCentres.push(centre);
+    faceDistances.push(d);
+
+    // Pyramid from the centre to the face
+    volume += (a * d) / 3;
+  }
+
+  return { faceNormals, faceAreas, faceCentres, faceDistances, volume };
+}
+
+// Box faces in the d6 order: +Y, +X, +Z, -Z, -X, -Y
+function cube(): Polyhedron {
+  const vertices = signs(0.5, 0.5, 0.5);
+  const normals = [v(0, 1, 0), v(1, 0, 0), v(0, 0, 1), v(0, 0, -1), v(-1, 0, 0), v(0, -1, 0)];
+  return { vertices, faces: facesFromNormals(vertices, normals) };
+}
+
+function tetrahedron(): Polyhedron {
+  const vertices = [v(1, 1, 1), v(1, -1, -1), v(-1, 1, -1), v(-1, -1, 1)];
+  return { vertices, faces: facesFromNormals(vertices, vertices.map((p) => scale(p, -1))) };
+}
+
+function octahedron(): Polyhedron {
+  const vertices = [v(1, 0, 0), v(-1, 0, 0), v(0, 1, 0), v(0, -1, 0), v(0, 0, 1), v(0, 0, -1)];
+  return { vertices, faces: facesFromNormals(vertices, signs(1, 1, 1)) };
+}
+
+function dodecahedron(): Polyhedron {
+  const vertices = [...signs(1, 1, 1), ...cyclicSigns(0, 1 / PHI, PHI)];
+  return { vertices, faces: facesFromNormals(vertices, cyclicSigns(0, PHI, 1)) };
+}
+
+function icosahedron(): Polyhedron {
+  const vertices = cyclicSigns(0, 1, PHI);
+  const normals = [...signs(1, 1, 1), ...cyclicSigns(0, PHI, 1 / PHI)];
+  return { vertices, faces: facesFromNormals(vertices, normals) };
+}
+
+// Pentagonal trapezohedron with its apexes on the y axis
+function trapezohedron(): Polyhedron {
+  const c = 0.12;
+  const cos36 = Math.cos(Math.PI / 5);
+  const apex = (c * (1 + cos36)) / (1 - cos36);
+  const slope = (2 * c) / (1 - cos36);
+
+  const ring = Array.from({ length: 10 }, (_, k) => {
+    const t = (k * Math.PI) / 5;
+    return v(Math.cos(t), k % 2 === 0 ? c : -c, Math.sin(t));
+  });
+  const vertices = [...ring, v(0, apex, 0), v(0, -apex, 0)];
+
+  // Upper kites point down to odd ring vertices, lower kites up to even ones
+  const normals = ring.map((p, k) => v(slope * p.x, k % 2 === 0 ? -1 : 1, slope * p.z));
+
+  return { vertices, faces: facesFromNormals(vertices, normals) };
+}
+
+const BUILDERS: Record<DieType, () => Polyhedron> = {
+  d4: tetrahedron,
+  d6: cube,
+  d8: octahedron,
+  d10: trapezohedron,
+  d12: dodecahedron,
+  d20: icosahedron,
+};
+
+const BASE_CACHE = new Map<DieType, Polyhedron>();
+
+// Unit-volume polyhedron for the die type (the d6 keeps its fixed face order)
+function basePolyhedron(type: DieType): Polyhedron {
+  let poly = BASE_CACHE.get(type);
+  if (!poly) {
+    if (!Object.hasOwn(BUILDERS, type)) throw new Error(`Unknown die type: ${type}.`);
+    const built = BUILDERS[type]();
+    poly = type === "d6" ? built : unitVolume(numberFaces(built));
+    BASE_CACHE.set(type, poly);
+  }
+  return poly;
+}
+
+// Number of faces of a die type
+export function faceCountOf(type: DieType): number {
+  return basePolyhedron(type).faces.length;
+}
+
+// Geometry of a die, stretched along x, y, z by the given dimensions
+export function getDieGeometry(
+  type: DieType = "d6",
+  dims: DieDims = { lx: 1, ly: 1, lz: 1 }
+): DieGeometry {
+  const sx = Math.max(dims.lx, 0.01);
+  const sy = Math.max(dims.ly, 0.01);
+  const sz = Math.max(dims.lz, 0.01);
+
+  const base = basePolyhedron(type);
+  const vertices = base.vertices.map((p) => v(p.x * sx, p.y * sy, p.z * sz));
+  const faces = base.faces.map((f) => [...f]);
+  const m = measure({ vertices, faces });
+
+  return {
+    type,
+    faceCount: faces.length,
+    vertices,
+    faces,
+    ...m,
+    inradius: Math.min(...m.faceDistances),
+  };
+}
@@ -0,0 +1,133 @@
+import type { BubbleConfig, Vec3 } from "@/types/bubble";
+import { applyBubblePhysics, clampBubbleToDie, normalizeWeights } from "@/lib/die";
+import { getDieGeometry, type DieDims, type DieType } from "@/lib/geometry";
+
+export type SlicePlane = "xy" | "xz" | "yz";
+
+export const SLICE_PLANE_LABELS: Record<SlicePlane, string> = {
+  xy: "XY (depth along z)",
+  xz: "XZ (depth along y)",
+  yz: "YZ (depth along x)",
+};
+
+export type BiasMeasure = "maxProbability" | "totalVariation" | "faceProbability";
+
+export const BIAS_MEASURE_LABELS: Record<BiasMeasure, string> = {
+  maxProbability: "Max face probability",
+  totalVariation: "Total variation from uniform",
+  faceProbability: "Probability of one face",
+};
+
+// In-plane axes (u, v) and the depth axis of each slice
+export const SLICE_AXES: Record<SlicePlane, { u: keyof Vec3; v: keyof Vec3; depth: keyof Vec3 }> = {
+  xy: { u: "x", v: "y", depth: "z" },
+  xz: { u: "x", v: "z", depth: "y" },
+  yz: { u: "y", v: "z", depth: "x" },
+};
+
+export type HeatmapCell = {
+  position: Vec3;
+  value: number | null; // null where a void of this radius does not fit
+};
+
+export type Heatmap = {
+  plane: SlicePlane;
+  uRange: [number, number];
+  vRange: [number, number];
+  rows: HeatmapCell[][]; // rows[j][i]: v from high to low, u from low to high
+  min: number;
+  max: number;
+};
+
+export type HeatmapOptions = {
+  dieType?: DieType;
+  dims: DieDims;
+  plane: SlicePlane;
+  depth: number;
+  radius: number;
+  resolution?: number;
+  baseWeights?: number[];
+  k?: number;
+  measure: BiasMeasure;
+  face?: number; // Face index for "faceProbability"
+};
+
+// Half-extent of the die's bounding box along each axis
+export function halfExtents(dims: DieDims, dieType: DieType = "d6"): Vec3 {
+  const { vertices } = getDieGeometry(dieType, dims);
+  return {
+    x: Math.max(...vertices.map((p) => Math.abs(p.x))),
+    y: Math.max(...vertices.map((p) => Math.abs(p.y))),
+    z: Math.max(...vertices.map((p) => Math.abs(p.z))),
+  };
+}
+
+// Value of a bias measure for a probability vector
+export function biasMeasure(probs: number[], measure: BiasMeasure, face = 0): number {
+  if (measure === "maxProbability") return Math.max(...probs);
+  if (measure === "faceProbability") {
+    if (!Number.isInteger(face) || face < 0 || face >= probs.length) {
+      throw new Error(`face must be an index in 0..${probs.length - 1}.`);
+    }
+    return probs[face];
+  }
+  return 0.5 * probs.reduce((acc, p) => acc + Math.abs(p - 1 / probs.length), 0);
+}
+
+// Evaluate a bias measure with a void centred on each cell of a slice through the die
+export function biasHeatmap({
+  dieType = "d6",
+  dims,
+  plane,
+  depth,
+  radius,
+  resolution = 25,
+  baseWeights,
+  k,
+  measure,
+  face = 0,
+}: HeatmapOptions): Heatmap {
+  if (!Number.isInteger(resolution) || resolution < 2) throw new Error("resolution must be an integer >= 2.");
+  if (!Number.isFinite(radius) || radius < 0) throw new Error("radius must be >= 0.");
+  if (!Number.isFinite(depth)) throw new Error("depth must be a finite number.");
+
+  const faceCount = getDieGeometry(dieType, dims).faceCount;
+  const base = baseWeights ?? Array(faceCount).fill(1);
+  if (base.length !== faceCount) throw new Error(`baseWeights must have ${faceCount} entries.`);
+
+  const axes = SLICE_AXES[plane];
+  const half = halfExtents(dims, dieType);
+  const uRange: [number, number] = [-half[axes.u], half[axes.u]];
+  const vRange: [number, number] = [-half[axes.v], half[axes.v]];
+
+  // Cell centres, so the grid never sits exactly on the die surface
+  const centre = (range: [number, number], i: number) =>
+    range[0] + ((range[1] - range[0]) * (i + 0.5)) / resolution;
+
+  let min = Infinity;
+  let max = -Infinity;
+  const rows = Array.from({ length: resolution }, (_, j) =>
+    Array.from({ length: resolution }, (_, i): HeatmapCell => {
+      const position = { x: 0, y: 0, z: 0 };
+      position[axes.u] = centre(uRange, i);
+      position[axes.v] = centre(vRange, resolution - 1 - j);
+      position[axes.depth] = depth;
+
+      // Skip cells where clamping would move or shrink the void
+      const bubble: BubbleConfig = { enabled: true, offset: position, radius };
+      const clamped = clampBubbleToDie(bubble, dims, dieType);
+      const fits =
+        Math.abs(clamped.radius - radius) < 1e-9 &&
+        (["x", "y", "z"] as const).every((a) => Math.abs(clamped.offset[a] - position[a]) < 1e-9);
+      if (!fits) return { position, value: null };
+
+      const probs = normalizeWeights(applyBubblePhysics(base, bubble, k, dims, dieType));
+      const value = biasMeasure(probs, measure, face);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+      return { position, value };
+    })
+  );
+
+  return { plane, uRange, vRange, rows, min, max };
+}
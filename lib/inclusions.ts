@@ -0,0 +1,314 @@
+import type { Axis, BubbleConfig, Inclusion, InclusionShape, Vec3 } from "@/types/bubble";
+import { edgeRadius, getDieGeometry, type DieDims, type DieType } from "@/lib/geometry";
+
+export const INCLUSION_SHAPES: InclusionShape[] = ["sphere", "box", "cylinder"];
+
+export const INCLUSION_SHAPE_LABELS: Record<InclusionShape, string> = {
+  sphere: "Sphere",
+  box: "Box",
+  cylinder: "Cylinder",
+};
+
+export const AXES: Axis[] = ["x", "y", "z"];
+
+// Sides of the polygon drawn around a cylinder's rim when testing containment
+const RIM_SEGMENTS = 24;
+
+// Halvings when searching for the largest offset or size that fits
+const BISECTION_STEPS = 40;
+
+const TOLERANCE = 1e-9;
+
+// Dot product of two Vec3
+function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+// Sizes are never negative; anything invalid counts as no size at all
+function size(x: number): number {
+  return Number.isFinite(x) ? Math.max(x, 0) : 0;
+}
+
+// The single air bubble as an inclusion (a disabled bubble has no volume)
+export function bubbleAsInclusion(bubble: BubbleConfig): Inclusion {
+  const radius = bubble.enabled ? bubble.radius : 0;
+  return {
+    shape: "sphere",
+    offset: bubble.offset,
+    radius,
+    halfExtents: { x: radius, y: radius, z: radius },
+    height: 2 * radius,
+    axis: "y",
+    density: 0,
+  };
+}
+
+// Volume of an inclusion
+export function inclusionVolume(inc: Inclusion): number {
+  const r = size(inc.radius);
+  switch (inc.shape) {
+    case "sphere":
+      return (4 / 3) * Math.PI * r * r * r;
+    case "box":
+      return 8 * size(inc.halfExtents.x) * size(inc.halfExtents.y) * size(inc.halfExtents.z);
+    case "cylinder":
+      return Math.PI * r * r * size(inc.height);
+  }
+}
+
+// Principal moments of inertia of an inclusion at unit density, about its own centre
+export function inclusionInertia(inc: Inclusion): Vec3 {
+  const r = size(inc.radius);
+  const m = inclusionVolume(inc);
+  switch (inc.shape) {
+    case "sphere":
+      return { x: 0.4 * m * r * r, y: 0.4 * m * r * r, z: 0.4 * m * r * r };
+    case "box": {
+      const [a, b, c] = AXES.map((axis) => size(inc.halfExtents[axis]) ** 2);
+      return { x: (m * (b + c)) / 3, y: (m * (a + c)) / 3, z: (m * (a + b)) / 3 };
+    }
+    case "cylinder": {
+      const h = size(inc.height);
+      const along = 0.5 * m * r * r;
+      const across = (m * (3 * r * r + h * h)) / 12;
+      return {
+        x: inc.axis === "x" ? along : across,
+        y: inc.axis === "y" ? along : across,
+        z: inc.axis === "z" ? along : across,
+      };
+    }
+  }
+}
+
+// Reach of an inclusion from its centre along unit direction n
+function extentAlong(inc: Inclusion, n: Vec3): number {
+  switch (inc.shape) {
+    case "sphere":
+      return size(inc.radius);
+    case "box":
+      return AXES.reduce((acc, axis) => acc + Math.abs(n[axis]) * size(inc.halfExtents[axis]), 0);
+    case "cylinder": {
+      const along = Math.abs(n[inc.axis]);
+      return size(inc.radius) * Math.sqrt(Math.max(0, 1 - along * along)) + (size(inc.height) / 2) * along;
+    }
+  }
+}
+
+// Half-extents of the axis-aligned box around the inclusion
+function boundingBox(inc: Inclusion): Vec3 {
+  const r = size(inc.radius);
+  switch (inc.shape) {
+    case "sphere":
+      return { x: r, y: r, z: r };
+    case "box":
+      return { x: size(inc.halfExtents.x), y: size(inc.halfExtents.y), z: size(inc.halfExtents.z) };
+    case "cylinder": {
+      const half = size(inc.height) / 2;
+      return { x: inc.axis === "x" ? half : r, y: inc.axis === "y" ? half : r, z: inc.axis === "z" ? half : r };
+    }
+  }
+}
+
+// Radius of the smallest sphere around the centre that contains the inclusion
+function boundingRadius(inc: Inclusion): number {
+  switch (inc.shape) {
+    case "sphere":
+      return size(inc.radius);
+    case "box":
+      return Math.hypot(size(inc.halfExtents.x), size(inc.halfExtents.y), size(inc.halfExtents.z));
+    case "cylinder":
+      return Math.hypot(size(inc.radius), size(inc.height) / 2);
+  }
+}
+
+// The inclusion with every size multiplied by s, keeping its proportions
+function scaleInclusion(inc: Inclusion, s: number): Inclusion {
+  return {
+    ...inc,
+    radius: size(inc.radius) * s,
+    halfExtents: {
+      x: size(inc.halfExtents.x) * s,
+      y: size(inc.halfExtents.y) * s,
+      z: size(inc.halfExtents.z) * s,
+    },
+    height: size(inc.height) * s,
+  };
+}
+
+// Signed distance from p to a box of the given half-sizes whose edges and corners are
+// rounded with radius r (negative inside)
+function roundedBoxDistance(p: Vec3, half: Vec3, r: number): number {
+  const q = AXES.map((axis) => Math.abs(p[axis]) - (half[axis] - r));
+  const outside = Math.hypot(...q.map((x) => Math.max(x, 0)));
+  return outside + Math.min(Math.max(...q), 0) - r;
+}
+
+// Points around the centre whose convex hull holds the inclusion: a box's corners, or a
+// polygon drawn around each rim of a cylinder
+function hullPoints(inc: Inclusion): Vec3[] {
+  if (inc.shape === "box") {
+    const [x, y, z] = AXES.map((axis) => size(inc.halfExtents[axis]));
+    return [-1, 1].flatMap((sx) =>
+      [-1, 1].flatMap((sy) => [-1, 1].map((sz) => ({ x: sx * x, y: sy * y, z: sz * z })))
+    );
+  }
+
+  const rim = size(inc.radius) / Math.cos(Math.PI / RIM_SEGMENTS);
+  const [u, w] = AXES.filter((axis) => axis !== inc.axis);
+  return [-0.5, 0.5].flatMap((end) =>
+    Array.from({ length: RIM_SEGMENTS }, (_, k) => {
+      const angle = (2 * Math.PI * k) / RIM_SEGMENTS;
+      const p: Vec3 = { x: 0, y: 0, z: 0 };
+      p[inc.axis] = end * size(inc.height);
+      p[u] = rim * Math.cos(angle);
+      p[w] = rim * Math.sin(angle);
+      return p;
+    })
+  );
+}
+
+// Whether the inclusion lies inside the rounded cuboid of a d6
+function insideRoundedCuboid(inc: Inclusion, half: Vec3, r: number): boolean {
+  if (inc.shape === "sphere") return roundedBoxDistance(inc.offset, half, r) <= TOLERANCE - size(inc.radius);
+  return hullPoints(inc).every(
+    (p) =>
+      roundedBoxDistance({ x: inc.offset.x + p.x, y: inc.offset.y + p.y, z: inc.offset.z + p.z }, half, r) <=
+      TOLERANCE
+  );
+}
+
+// Largest t in [0, 1] with fits(t), for a test that holds at 0 and stops holding past some point
+function largestFitting(fits: (t: number) => boolean): number {
+  if (fits(1)) return 1;
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = (lo + hi) / 2;
+    if (fits(mid)) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Move an inclusion in toward the centre and then shrink it until it clears the rounded
+// edges and corners of a d6
+function fitRoundedCuboid(inc: Inclusion, die: DieDims): Inclusion {
+  const half: Vec3 = { x: die.lx / 2, y: die.ly / 2, z: die.lz / 2 };
+  const r = edgeRadius(die);
+
+  const t = largestFitting((t) => {
+    const p = { x: inc.offset.x * t, y: inc.offset.y * t, z: inc.offset.z * t };
+    return roundedBoxDistance(p, half, r) <= 0;
+  });
+  const centred: Inclusion = {
+    ...inc,
+    offset: { x: inc.offset.x * t, y: inc.offset.y * t, z: inc.offset.z * t },
+  };
+
+  const s = largestFitting((s) => insideRoundedCuboid(scaleInclusion(centred, s), half, r));
+  return scaleInclusion(centred, s);
+}
+
+// Clamp an inclusion's offset and size so it lies inside every face plane of the die (and,
+// for the d6, inside its rounded edges); an inclusion that is too big shrinks as a whole,
+// keeping its proportions
+export function clampInclusionToDie(
+  inc: Inclusion,
+  die: DieDims,
+  dieType: DieType = "d6"
+): Inclusion {
+  const { faceNormals, faceDistances } = getDieGeometry(dieType, die);
+
+  // Pull offset back toward the centre until it lies inside the die
+  let t = 1;
+  faceNormals.forEach((n, j) => {
+    const h = dot(inc.offset, n);
+    if (h > faceDistances[j]) t = Math.min(t, faceDistances[j] / h);
+  });
+  const offset: Vec3 = {
+    x: inc.offset.x * t,
+    y: inc.offset.y * t,
+    z: inc.offset.z * t,
+  };
+
+  // Largest scale at offset that keeps the shape's extent behind every face plane
+  const maxScale = Math.min(
+    1,
+    ...faceNormals.map((n, j) => {
+      const extent = extentAlong(inc, n);
+      return extent > 0 ? (faceDistances[j] - dot(offset, n)) / extent : Infinity;
+    })
+  );
+
+  const clamped: Inclusion = {
+    ...scaleInclusion(inc, Math.max(0, maxScale)),
+    offset,
+    density: Number.isFinite(inc.density) ? Math.max(inc.density, 0) : 1,
+  };
+  return dieType === "d6" ? fitRoundedCuboid(clamped, die) : clamped;
+}
+
+// Describe inclusions that stick out of the die or (conservatively) overlap one another
+export function validateInclusions(
+  inclusions: Inclusion[],
+  die: DieDims,
+  dieType: DieType = "d6",
+  names: string[] = inclusions.map((_, i) => `Inclusion ${i + 1}`)
+): string[] {
+  const { faceNormals, faceDistances } = getDieGeometry(dieType, die);
+  const issues: string[] = [];
+  const half: Vec3 = { x: die.lx / 2, y: die.ly / 2, z: die.lz / 2 };
+
+  inclusions.forEach((inc, i) => {
+    const sizes = [inc.radius, inc.halfExtents.x, inc.halfExtents.y, inc.halfExtents.z, inc.height];
+    if (!sizes.every((x) => Number.isFinite(x) && x >= 0)) {
+      issues.push(`${names[i]}: size must be >= 0.`);
+    }
+    if (!Number.isFinite(inc.density) || inc.density < 0) {
+      issues.push(`${names[i]}: density must be >= 0.`);
+    }
+
+    const outside =
+      dieType === "d6"
+        ? !insideRoundedCuboid(inc, half, edgeRadius(die))
+        : faceNormals.some((n, j) => dot(inc.offset, n) + extentAlong(inc, n) > faceDistances[j] + TOLERANCE);
+    if (outside) issues.push(`${names[i]} extends outside the die.`);
+  });
+
+  // Both bounding spheres and axis-aligned bounding boxes must intersect for the shapes to overlap
+  for (let i = 0; i < inclusions.length; i++) {
+    for (let j = i + 1; j < inclusions.length; j++) {
+      const a = inclusions[i];
+      const b = inclusions[j];
+      if (inclusionVolume(a) <= 0 || inclusionVolume(b) <= 0) continue;
+
+      const d = { x: b.offset.x - a.offset.x, y: b.offset.y - a.offset.y, z: b.offset.z - a.offset.z };
+      const boxA = boundingBox(a);
+      const boxB = boundingBox(b);
+
+      const spheres = Math.sqrt(dot(d, d)) < boundingRadius(a) + boundingRadius(b) - TOLERANCE;
+      const boxes = AXES.every((axis) => Math.abs(d[axis]) < boxA[axis] + boxB[axis] - TOLERANCE);
+      if (spheres && boxes) issues.push(`${names[i]} and ${names[j]} overlap.`);
+    }
+  }
+
+  return issues;
+}
+
+// Centre of mass of a die of the given volume (unit density) with inclusions
+export function centreOfMassShift(inclusions: Inclusion[], bodyVolume: number): Vec3 {
+  let mass = bodyVolume;
+  const moment: Vec3 = { x: 0, y: 0, z: 0 };
+
+  // Each inclusion replaces body material with material of its own density
+  for (const inc of inclusions) {
+    const dm = (inc.density - 1) * inclusionVolume(inc);
+    mass += dm;
+    moment.x += dm * inc.offset.x;
+    moment.y += dm * inc.offset.y;
+    moment.z += dm * inc.offset.z;
+  }
+
+  if (mass <= 1e-12) throw new Error("Inclusions leave the die without mass.");
+  return { x: moment.x / mass, y: moment.y / mass, z: moment.z / mass };
+}
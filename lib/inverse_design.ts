@@ -0,0 +1,125 @@
+import type { BubbleConfig } from "@/types/bubble";
+import {
+  applyBubblePhysics,
+  clampBubbleToDie,
+  normalizeWeights,
+  weightsFromDimensions,
+} from "@/lib/die";
+import { getDieGeometry, type DieDims, type DieType } from "@/lib/geometry";
+import { nelderMead } from "@/lib/optimize";
+import { defaultRandom, type RandomSource } from "@/lib/random";
+import { distributionDistance, type DistanceKind } from "@/lib/stats";
+
+export type InverseDesignOptions = {
+  dieType?: DieType;
+  dims: DieDims;               // Fixed dimensions, or the start when optimising them
+  baseWeights?: number[];      // Weights before the bubble for fixed dimensions (fair by default)
+  optimiseDimensions?: boolean;
+  exponent?: number;           // Area exponent for weights from dimensions
+  k?: number;                  // Bubble constant (size-based default when omitted)
+  distance?: DistanceKind;
+  restarts?: number;
+  tolerance?: number;          // Largest per-face error that still counts as a hit
+  rng?: RandomSource;
+  onRestart?: (done: number, total: number) => void; // Called after each start of the search
+};
+
+export type InverseDesignResult = {
+  bubble: BubbleConfig;
+  dims: DieDims;
+  probs: number[];
+  residual: number;  // Distance from the target to the best achievable distribution
+  maxError: number;  // Largest per-face |p - target|
+  reachable: boolean;
+};
+
+// Dimensions with the product of the start dimensions and log aspect ratios u, v
+function dimsFromRatios(volume: number, u: number, v: number): DieDims {
+  const s = Math.cbrt(volume);
+  return { lx: s * Math.exp(u), ly: s * Math.exp(v), lz: s * Math.exp(-u - v) };
+}
+
+// Search bubble offset and radius (and optionally dimensions) for the closest match to target
+export function designForTarget(
+  target: number[],
+  {
+    dieType = "d6",
+    dims,
+    baseWeights,
+    optimiseDimensions = false,
+    exponent = 1,
+    k,
+    distance = "kl",
+    restarts = 8,
+    tolerance = 1e-3,
+    rng = defaultRandom,
+    onRestart,
+  }: InverseDesignOptions
+): InverseDesignResult {
+  const geometry = getDieGeometry(dieType, dims);
+  if (target.length !== geometry.faceCount) {
+    throw new Error(`target must have ${geometry.faceCount} entries.`);
+  }
+  const targetProbs = normalizeWeights(target);
+
+  const fixedBase = baseWeights ?? Array(geometry.faceCount).fill(1);
+  if (fixedBase.length !== geometry.faceCount) {
+    throw new Error(`baseWeights must have ${geometry.faceCount} entries.`);
+  }
+
+  // Aspect ratios only: the overall size is kept, so the bubble's relative scale stays meaningful
+  const volume = dims.lx * dims.ly * dims.lz;
+  const u0 = Math.log(dims.lx / Math.cbrt(volume));
+  const v0 = Math.log(dims.ly / Math.cbrt(volume));
+
+  // Parameters: offset x, y, z, radius, then log aspect ratios when optimising dimensions
+  const decode = (x: number[]) => {
+    const d = optimiseDimensions ? dimsFromRatios(volume, x[4], x[5]) : dims;
+    const bubble = clampBubbleToDie(
+      { enabled: true, offset: { x: x[0], y: x[1], z: x[2] }, radius: Math.abs(x[3]) },
+      d,
+      dieType
+    );
+    const base = optimiseDimensions ? weightsFromDimensions(d, exponent, dieType) : fixedBase;
+    const probs = normalizeWeights(applyBubblePhysics(base, bubble, k, d, dieType));
+    return { dims: d, bubble, probs };
+  };
+
+  const objective = (x: number[]) => distributionDistance(targetProbs, decode(x).probs, distance);
+
+  const scale = geometry.inradius;
+  const step = [0.2, 0.2, 0.2, 0.2].map((s) => s * scale);
+  if (optimiseDimensions) step.push(0.2, 0.2);
+
+  // Multi-start: the centre first, then random interior starts
+  let best: { x: number[]; value: number } | null = null;
+  const starts = Math.max(1, restarts);
+  for (let i = 0; i < starts; i++) {
+    const spread = i === 0 ? 0 : 0.8 * scale;
+    const x0 = [
+      (2 * rng() - 1) * spread,
+      (2 * rng() - 1) * spread,
+      (2 * rng() - 1) * spread,
+      i === 0 ? 0.5 * scale : (0.2 + 0.7 * rng()) * scale,
+    ];
+    if (optimiseDimensions) {
+      x0.push(i === 0 ? u0 : u0 + (2 * rng() - 1) * 0.3, i === 0 ? v0 : v0 + (2 * rng() - 1) * 0.3);
+    }
+
+    const run = nelderMead(objective, x0, { step, maxIterations: 800, tolerance: 1e-14 });
+    if (!best || run.value < best.value) best = run;
+    onRestart?.(i + 1, starts);
+  }
+
+  const { dims: bestDims, bubble, probs } = decode(best!.x);
+  const maxError = Math.max(...probs.map((p, i) => Math.abs(p - targetProbs[i])));
+
+  return {
+    bubble,
+    dims: bestDims,
+    probs,
+    residual: best!.value,
+    maxError,
+    reachable: maxError <= tolerance,
+  };
+}
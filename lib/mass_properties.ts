@@ -0,0 +1,91 @@
+import type { Inclusion, Vec3 } from "@/types/bubble";
+import { EDGE_RADIUS_RATIO, edgeRadius, type DieDims } from "@/lib/geometry";
+import { inclusionInertia, inclusionVolume } from "@/lib/inclusions";
+
+export type Mat3 = number[]; // Row-major 3x3
+
+export type MassProperties = {
+  volume: number;       // Outer volume of the die
+  mass: number;         // With the body at unit density
+  centreOfMass: Vec3;   // Relative to the geometric centre
+  inertia: Mat3;        // About the centre of mass, body axes
+};
+
+// Second moment ∫x² dV of a rounded cuboid along the axis of side a (other sides b, c),
+// split into the inner box, face slabs, edge quarter-cylinders and corner sphere octants
+function roundedSecondMoment(a: number, b: number, c: number, r: number): number {
+  const [A, B, C] = [a - 2 * r, b - 2 * r, c - 2 * r];
+  const h = A / 2;
+  const pi = Math.PI;
+
+  const innerBox = (A * A * A * B * C) / 12;
+  const slabsAlong = (2 * B * C * ((h + r) ** 3 - h ** 3)) / 3;
+  const slabsAcross = (2 * r * (B + C) * A * A * A) / 12;
+  const edgesAlong = (pi * r * r * A * A * A) / 12;
+  const edgesAcross = (B + C) * (h * h * pi * r * r + (A * 4 * r ** 3) / 3 + (pi * r ** 4) / 4);
+  const corners = h * h * (4 / 3) * pi * r ** 3 + (A * pi * r ** 4) / 2 + (4 * pi * r ** 5) / 15;
+
+  return innerBox + slabsAlong + slabsAcross + edgesAlong + edgesAcross + corners;
+}
+
+// Volume of a rounded cuboid with edge radius r
+function roundedVolume(dims: DieDims, r: number): number {
+  const [A, B, C] = [dims.lx - 2 * r, dims.ly - 2 * r, dims.lz - 2 * r];
+  return A * B * C + 2 * r * (A * B + B * C + A * C) + Math.PI * r * r * (A + B + C) + (4 / 3) * Math.PI * r ** 3;
+}
+
+// Volume, centre of mass and inertia tensor of a rounded cuboid with inclusions
+export function massProperties(
+  dims: DieDims,
+  inclusions: Inclusion[] = [],
+  ratio = EDGE_RADIUS_RATIO
+): MassProperties {
+  const { lx, ly, lz } = dims;
+  if (!(lx > 0 && ly > 0 && lz > 0)) throw new Error("Dimensions must be > 0.");
+  if (!Number.isFinite(ratio) || ratio < 0 || ratio > 0.5) throw new Error("ratio must be in [0, 0.5].");
+
+  // Rounded body at unit density; symmetric, so its inertia about the centre is diagonal
+  const r = edgeRadius(dims, ratio);
+  const volume = roundedVolume(dims, r);
+  const sx = roundedSecondMoment(lx, ly, lz, r);
+  const sy = roundedSecondMoment(ly, lz, lx, r);
+  const sz = roundedSecondMoment(lz, lx, ly, r);
+  const inertia: Mat3 = [sy + sz, 0, 0, 0, sx + sz, 0, 0, 0, sx + sy];
+
+  // Each inclusion adds (density - 1) times its own mass properties about the centre
+  let mass = volume;
+  const moment: Vec3 = { x: 0, y: 0, z: 0 };
+  for (const inc of inclusions) {
+    const scaleBy = inc.density - 1;
+    const dm = scaleBy * inclusionVolume(inc);
+    const own = inclusionInertia(inc);
+    const b = inc.offset;
+    const bb = b.x * b.x + b.y * b.y + b.z * b.z;
+
+    const delta: Mat3 = [
+      scaleBy * own.x + dm * (bb - b.x * b.x), -dm * b.x * b.y, -dm * b.x * b.z,
+      -dm * b.y * b.x, scaleBy * own.y + dm * (bb - b.y * b.y), -dm * b.y * b.z,
+      -dm * b.z * b.x, -dm * b.z * b.y, scaleBy * own.z + dm * (bb - b.z * b.z),
+    ];
+    delta.forEach((x, k) => (inertia[k] += x));
+
+    mass += dm;
+    moment.x += dm * b.x;
+    moment.y += dm * b.y;
+    moment.z += dm * b.z;
+  }
+
+  if (mass <= 1e-12) throw new Error("Inclusions leave the die without mass.");
+  const centreOfMass = { x: moment.x / mass, y: moment.y / mass, z: moment.z / mass };
+
+  // Shift from the geometric centre to the centre of mass (parallel axis theorem)
+  const c = [centreOfMass.x, centreOfMass.y, centreOfMass.z];
+  const cc = c[0] * c[0] + c[1] * c[1] + c[2] * c[2];
+  const inertiaAtCom = inertia.map((x, k) => {
+    const i = Math.floor(k / 3);
+    const j = k % 3;
+    return x - mass * ((i === j ? cc : 0) - c[i] * c[j]);
+  });
+
+  return { volume, mass, centreOfMass, inertia: inertiaAtCom };
+}
@@ -0,0 +1,198 @@
+import type { BubbleConfig } from "@/types/bubble";
+import {
+  applyBubblePhysics,
+  clampBubbleToDie,
+  defaultFaceValues,
+  isSamplerKind,
+  normalizeWeights,
+  SAMPLER_KINDS,
+  weightsFromDimensions,
+  type SamplerKind,
+} from "@/lib/die";
+import { DIE_TYPES, faceCountOf, type DieDims, type DieType } from "@/lib/geometry";
+
+// Largest simulation served in one request
+export const MAX_REQUEST_ROLLS = 10_000_000;
+
+// Most running-mean points returned in one response
+export const MAX_MEAN_POINTS = 10_000;
+
+// A die model given by weights or by cuboid dimensions, with an optional air bubble
+export type ModelSpec = {
+  dieType: DieType;
+  weights?: number[];
+  dimensions?: DieDims;
+  exponent: number;
+  bubble: BubbleConfig | null;
+  k?: number;
+  values?: number[];
+};
+
+export type SimulationSpec = ModelSpec & {
+  n: number;
+  seed: string;
+  sampler: SamplerKind;
+  sampleStep?: number;
+};
+
+export type ModelEvaluation = {
+  baseWeights: number[];       // Before the bubble
+  bubble: BubbleConfig | null; // After clamping to the die
+  weights: number[];           // applyBubblePhysics output
+  probs: number[];             // normalizeWeights output
+  values: number[];
+};
+
+// Invalid request input, with the offending field
+export class RequestError extends Error {
+  constructor(
+    readonly field: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+// Running-mean spacing that keeps about a thousand points
+export function defaultSampleStep(n: number): number {
+  return Math.max(1, Math.ceil(n / 1000));
+}
+
+// Weights, bubble and probabilities of a model, as the page computes them
+export function evaluateModel(spec: ModelSpec): ModelEvaluation {
+  const faceCount = faceCountOf(spec.dieType);
+  const dims = spec.dimensions ?? { lx: 1, ly: 1, lz: 1 };
+
+  const baseWeights = spec.weights
+    ? spec.weights
+    : spec.dimensions
+      ? weightsFromDimensions(spec.dimensions, spec.exponent, spec.dieType)
+      : Array(faceCount).fill(1);
+
+  const bubble = spec.bubble ? clampBubbleToDie(spec.bubble, dims, spec.dieType) : null;
+  const weights = bubble ? applyBubblePhysics(baseWeights, bubble, spec.k, dims, spec.dieType) : baseWeights;
+
+  return {
+    baseWeights,
+    bubble,
+    weights,
+    probs: normalizeWeights(weights),
+    values: spec.values ?? defaultFaceValues(faceCount),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function finite(value: unknown, field: string, min = -Infinity): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min) {
+    throw new RequestError(field, `${field} must be a finite number${min > -Infinity ? ` >= ${min}` : ""}.`);
+  }
+  return value;
+}
+
+function finiteList(value: unknown, field: string, length: number, min = -Infinity): number[] {
+  if (!Array.isArray(value) || value.length !== length) {
+    throw new RequestError(field, `${field} must be an array of ${length} numbers.`);
+  }
+  return value.map((v, i) => finite(v, `${field}[${i}]`, min));
+}
+
+// Validate the model part of a JSON request body
+export function parseModelSpec(body: unknown): ModelSpec {
+  if (!isObject(body)) throw new RequestError("", "The request body must be a JSON object.");
+
+  const dieType = (body.dieType ?? "d6") as DieType;
+  if (!DIE_TYPES.includes(dieType)) {
+    throw new RequestError("dieType", `dieType must be one of ${DIE_TYPES.join(", ")}.`);
+  }
+  const faceCount = faceCountOf(dieType);
+
+  if (body.weights !== undefined && body.dimensions !== undefined) {
+    throw new RequestError("weights", "Give either weights or dimensions, not both.");
+  }
+
+  const spec: ModelSpec = {
+    dieType,
+    exponent: body.exponent === undefined ? 1 : finite(body.exponent, "exponent"),
+    bubble: null,
+  };
+  if (spec.exponent === 0) throw new RequestError("exponent", "exponent must be nonzero.");
+
+  if (body.weights !== undefined) {
+    spec.weights = finiteList(body.weights, "weights", faceCount, 0);
+    if (spec.weights.every((w) => w === 0)) throw new RequestError("weights", "weights must not all be 0.");
+  }
+
+  if (body.dimensions !== undefined) {
+    const d = body.dimensions;
+    if (!isObject(d)) throw new RequestError("dimensions", "dimensions must be an object { lx, ly, lz }.");
+    spec.dimensions = {
+      lx: finite(d.lx, "dimensions.lx", 0.01),
+      ly: finite(d.ly, "dimensions.ly", 0.01),
+      lz: finite(d.lz, "dimensions.lz", 0.01),
+    };
+  }
+
+  if (body.bubble !== undefined && body.bubble !== null) {
+    const b = body.bubble;
+    if (!isObject(b)) throw new RequestError("bubble", "bubble must be an object { radius, offset }.");
+    const offset = b.offset ?? { x: 0, y: 0, z: 0 };
+    if (!isObject(offset)) throw new RequestError("bubble.offset", "bubble.offset must be an object { x, y, z }.");
+    if (b.enabled !== undefined && typeof b.enabled !== "boolean") {
+      throw new RequestError("bubble.enabled", "bubble.enabled must be true or false.");
+    }
+    spec.bubble = {
+      enabled: b.enabled ?? true,
+      radius: finite(b.radius, "bubble.radius", 0),
+      offset: {
+        x: finite(offset.x ?? 0, "bubble.offset.x"),
+        y: finite(offset.y ?? 0, "bubble.offset.y"),
+        z: finite(offset.z ?? 0, "bubble.offset.z"),
+      },
+    };
+  }
+
+  if (body.k !== undefined) spec.k = finite(body.k, "k", 0);
+  if (body.values !== undefined) spec.values = finiteList(body.values, "values", faceCount);
+  return spec;
+}
+
+// Validate a simulation request body: the model plus n, seed, sampler and sampleStep
+export function parseSimulationSpec(body: unknown): SimulationSpec {
+  const model = parseModelSpec(body);
+  const b = body as Record<string, unknown>;
+
+  const n = finite(b.n, "n", 1);
+  if (!Number.isInteger(n)) throw new RequestError("n", "n must be an integer.");
+  if (n > MAX_REQUEST_ROLLS) {
+    throw new RequestError("n", `n must be <= ${MAX_REQUEST_ROLLS.toLocaleString("en-US")}.`);
+  }
+
+  if (b.seed !== undefined && typeof b.seed !== "string" && typeof b.seed !== "number") {
+    throw new RequestError("seed", "seed must be a string or a number.");
+  }
+  const seed = b.seed === undefined ? "" : String(b.seed);
+
+  const sampler = b.sampler ?? "alias";
+  if (!isSamplerKind(sampler)) {
+    throw new RequestError("sampler", `sampler must be one of ${SAMPLER_KINDS.join(", ")}.`);
+  }
+
+  const spec: SimulationSpec = { ...model, n, seed, sampler };
+  if (b.sampleStep !== undefined) {
+    spec.sampleStep = finite(b.sampleStep, "sampleStep", 1);
+    if (!Number.isInteger(spec.sampleStep)) throw new RequestError("sampleStep", "sampleStep must be an integer.");
+
+    const minStep = Math.ceil(n / MAX_MEAN_POINTS);
+    if (spec.sampleStep < minStep) {
+      throw new RequestError(
+        "sampleStep",
+        `sampleStep must be >= ${minStep} for n = ${n} (at most ${MAX_MEAN_POINTS.toLocaleString("en-US")} running-mean points).`
+      );
+    }
+  }
+  return spec;
+}
@@ -0,0 +1,87 @@
+export type NelderMeadOptions = {
+  step?: number | number[]; // Initial simplex size per coordinate
+  maxIterations?: number;
+  tolerance?: number;       // Stop when the simplex's function values agree this closely
+};
+
+export type NelderMeadResult = {
+  x: number[];
+  value: number;
+  iterations: number;
+  converged: boolean;
+};
+
+// Minimise f with the Nelder–Mead simplex method (standard coefficients)
+export function nelderMead(
+  f: (x: number[]) => number,
+  x0: number[],
+  { step = 0.1, maxIterations = 500, tolerance = 1e-10 }: NelderMeadOptions = {}
+): NelderMeadResult {
+  const n = x0.length;
+  if (n === 0) throw new Error("x0 must be a non-empty array.");
+
+  const steps = Array.isArray(step) ? step : Array(n).fill(step);
+  if (steps.length !== n) throw new Error("step must have one entry per coordinate.");
+
+  // Non-finite values (infeasible points) are treated as worse than anything else
+  const evaluate = (x: number[]) => {
+    const v = f(x);
+    return Number.isFinite(v) ? v : Infinity;
+  };
+
+  let simplex = [x0, ...x0.map((_, i) => x0.map((v, j) => (i === j ? v + steps[i] : v)))];
+  let values = simplex.map(evaluate);
+
+  const combine = (a: number[], b: number[], t: number) => a.map((ai, i) => ai + t * (b[i] - ai));
+
+  let iterations = 0;
+  let converged = false;
+
+  for (; iterations < maxIterations; iterations++) {
+    // Sort vertices from best to worst
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+    simplex = order.map((i) => simplex[i]);
+    values = order.map((i) => values[i]);
+
+    if (Math.abs(values[n] - values[0]) <= tolerance) {
+      converged = true;
+      break;
+    }
+
+    const centroid = x0.map((_, j) => simplex.slice(0, n).reduce((acc, x) => acc + x[j], 0) / n);
+    const worst = simplex[n];
+
+    const reflected = combine(centroid, worst, -1);
+    const fr = evaluate(reflected);
+
+    if (fr < values[0]) {
+      const expanded = combine(centroid, worst, -2);
+      const fe = evaluate(expanded);
+      [simplex[n], values[n]] = fe < fr ? [expanded, fe] : [reflected, fr];
+      continue;
+    }
+
+    if (fr < values[n - 1]) {
+      [simplex[n], values[n]] = [reflected, fr];
+      continue;
+    }
+
+    // Contract toward the better of the worst and the reflected point
+    const outside = fr < values[n];
+    const contracted = combine(centroid, outside ? reflected : worst, 0.5);
+    const fc = evaluate(contracted);
+    if (fc < Math.min(fr, values[n])) {
+      [simplex[n], values[n]] = [contracted, fc];
+      continue;
+    }
+
+    // Shrink everything toward the best vertex
+    for (let i = 1; i <= n; i++) {
+      simplex[i] = combine(simplex[0], simplex[i], 0.5);
+      values[i] = evaluate(simplex[i]);
+    }
+  }
+
+  const best = values.indexOf(Math.min(...values));
+  return { x: simplex[best], value: values[best], iterations, converged };
+}
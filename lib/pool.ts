@@ -0,0 +1,127 @@
+import {
+  createSampler,
+  defaultFaceValues,
+  normalizeWeights,
+  valueDistribution,
+  type SamplerKind,
+} from "@/lib/die";
+import { defaultRandom, type RandomSource } from "@/lib/random";
+
+// One die in a pool: its weights and (optionally) its outcome values
+export type PoolDie = {
+  weights: number[];
+  values?: number[];
+};
+
+// Probability mass function over outcome values, in ascending order of value
+export type Pmf = { value: number; p: number }[];
+
+export type PoolSimulationResult = {
+  values: number[];
+  counts: number[];
+  relFreq: number[];
+  probs: number[];
+  runningMean: number[];
+  sampleStep: number;
+};
+
+// Round sums so that floating-point noise does not split one outcome in two
+function sumKey(x: number): number {
+  return Math.round(x * 1e9) / 1e9;
+}
+
+// Validate pool and return each die's probabilities and values
+function preparePool(dice: PoolDie[]) {
+  if (!Array.isArray(dice) || dice.length === 0) {
+    throw new Error("Pool must contain at least one die.");
+  }
+
+  return dice.map((die) => {
+    const probs = normalizeWeights(die.weights);
+    const values = die.values ?? defaultFaceValues(probs.length);
+    if (values.length !== probs.length) {
+      throw new Error("values must have one entry per face.");
+    }
+    return { probs, values };
+  });
+}
+
+// PMF of the sum of two independent outcomes (discrete convolution)
+export function convolvePmf(a: Pmf, b: Pmf): Pmf {
+  const mass = new Map<number, number>();
+
+  for (const x of a) {
+    for (const y of b) {
+      const key = sumKey(x.value + y.value);
+      mass.set(key, (mass.get(key) ?? 0) + x.p * y.p);
+    }
+  }
+
+  return [...mass.entries()]
+    .sort((l, r) => l[0] - r[0])
+    .map(([value, p]) => ({ value, p }));
+}
+
+// Exact PMF of the total of all dice in the pool
+export function poolDistribution(dice: PoolDie[]): Pmf {
+  const prepared = preparePool(dice);
+
+  return prepared
+    .map(({ probs, values }) => valueDistribution(probs, values))
+    .reduce((acc, pmf) => convolvePmf(acc, pmf));
+}
+
+// Simulate rolling the whole pool n times and return statistics of the total,
+// reporting the counts so far after every `batchSize` rolls
+export function simulatePool(
+  dice: PoolDie[],
+  n: number,
+  sampleStep = 10,
+  rng: RandomSource = defaultRandom,
+  sampler: SamplerKind = "sequential",
+  onBatch?: (done: number, counts: readonly number[]) => void,
+  batchSize = 250_000
+): PoolSimulationResult {
+  if (!Number.isFinite(n) || n <= 0) throw new Error("n must be a positive integer.");
+  n = Math.floor(n);
+
+  if (!Number.isFinite(sampleStep) || sampleStep <= 0) throw new Error("sampleStep must be >= 1.");
+  sampleStep = Math.floor(sampleStep);
+
+  const prepared = preparePool(dice);
+  const pmf = poolDistribution(dice);
+
+  // Index of every possible total in the exact support
+  const values = pmf.map((e) => e.value);
+  const index = new Map(values.map((v, i) => [v, i]));
+
+  const samplers = prepared.map(({ probs }) => createSampler(probs, sampler));
+  const counts = Array(values.length).fill(0) as number[];
+  const runningMean: number[] = [];
+  let sumTotals = 0;
+
+  for (let i = 0; i < n; i++) {
+    // Round partial sums the same way convolvePmf does
+    let total = prepared[0].values[samplers[0](rng())];
+    for (let d = 1; d < samplers.length; d++) {
+      total = sumKey(total + prepared[d].values[samplers[d](rng())]);
+    }
+
+    counts[index.get(total)!]++;
+    sumTotals += total;
+
+    if ((i + 1) % sampleStep === 0 || i === n - 1) {
+      runningMean.push(sumTotals / (i + 1));
+    }
+    if (onBatch && ((i + 1) % batchSize === 0 || i === n - 1)) onBatch(i + 1, counts);
+  }
+
+  return {
+    values,
+    counts,
+    relFreq: counts.map((c) => c / n),
+    probs: pmf.map((e) => e.p),
+    runningMean,
+    sampleStep,
+  };
+}
@@ -0,0 +1,116 @@
+// Source of uniform random numbers in [0, 1)
+export type RandomSource = () => number;
+
+export type Seed = number | string;
+
+// Default random source (not reproducible)
+export const defaultRandom: RandomSource = Math.random;
+
+// Hash a seed (number or string) to a 32-bit unsigned integer (FNV-1a)
+export function hashSeed(seed: Seed): number {
+  const text = typeof seed === "number" ? String(Math.trunc(seed)) : seed.trim();
+
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+
+  return h >>> 0;
+}
+
+// SplitMix32 step, used to expand a 32-bit seed into generator state
+function splitMix32(state: { s: number }): number {
+  state.s = (state.s + 0x9e3779b9) | 0;
+  let z = state.s;
+  z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+  z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+  return (z ^ (z >>> 16)) >>> 0;
+}
+
+// Rotate a 32-bit integer left by k bits
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
+
+// Seeded xoshiro128** generator returning uniforms in [0, 1)
+export function xoshiro128ss(seed: Seed): RandomSource {
+  const init = { s: hashSeed(seed) };
+  let a = splitMix32(init);
+  let b = splitMix32(init);
+  let c = splitMix32(init);
+  let d = splitMix32(init);
+
+  // All-zero state is a fixed point of xoshiro
+  if ((a | b | c | d) === 0) a = 1;
+
+  return () => {
+    const result = Math.imul(rotl(Math.imul(b, 5), 7), 9) >>> 0;
+    const t = b << 9;
+
+    c ^= a;
+    d ^= b;
+    b ^= c;
+    a ^= d;
+    c ^= t;
+    d = rotl(d, 11);
+
+    return result / 4294967296;
+  };
+}
+
+// Create a random source: seeded if a seed is given, Math.random otherwise
+export function createRandom(seed?: Seed | null): RandomSource {
+  if (seed === undefined || seed === null) return defaultRandom;
+  if (typeof seed === "string" && seed.trim() === "") return defaultRandom;
+  return xoshiro128ss(seed);
+}
+
+// Generate a fresh seed that can be shown to and replayed by the user
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// Standard normal variate (Box–Muller)
+export function sampleNormal(rng: RandomSource = defaultRandom): number {
+  let u = 0;
+  while (u === 0) u = rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Gamma(shape, 1) variate (Marsaglia–Tsang)
+export function sampleGamma(shape: number, rng: RandomSource = defaultRandom): number {
+  if (!Number.isFinite(shape) || shape <= 0) throw new Error("shape must be > 0.");
+
+  // Boost small shapes: Gamma(a) = Gamma(a + 1) * U^(1/a)
+  if (shape < 1) {
+    let u = 0;
+    while (u === 0) u = rng();
+    return sampleGamma(shape + 1, rng) * Math.pow(u, 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = rng();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (u > 0 && Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+// Dirichlet(alpha) variate via normalized gamma draws
+export function sampleDirichlet(alpha: number[], rng: RandomSource = defaultRandom): number[] {
+  const g = alpha.map((a) => sampleGamma(a, rng));
+  const sum = g.reduce((acc, x) => acc + x, 0);
+  return g.map((x) => x / sum);
+}
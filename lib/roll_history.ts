@@ -0,0 +1,38 @@
+// A run of identical consecutive outcomes
+export type Streak = { face: number; length: number };
+
+// Streak ending at the latest roll
+export function currentStreak(history: number[]): Streak | null {
+  if (history.length === 0) return null;
+
+  const face = history[history.length - 1];
+  let length = 1;
+  while (length < history.length && history[history.length - 1 - length] === face) length++;
+
+  return { face, length };
+}
+
+// Longest streak in the history (the earliest one on ties)
+export function longestStreak(history: number[]): Streak | null {
+  if (history.length === 0) return null;
+
+  let best: Streak = { face: history[0], length: 1 };
+  let length = 1;
+  for (let i = 1; i < history.length; i++) {
+    length = history[i] === history[i - 1] ? length + 1 : 1;
+    if (length > best.length) best = { face: history[i], length };
+  }
+
+  return best;
+}
+
+// Relative frequency of each face among the last n rolls
+export function lastNFrequencies(history: number[], faceCount: number, n: number): number[] {
+  if (!Number.isFinite(n) || n <= 0) throw new Error("n must be a positive integer.");
+
+  const recent = history.slice(-Math.floor(n));
+  const counts = Array(faceCount).fill(0) as number[];
+  for (const face of recent) counts[face]++;
+
+  return counts.map((c) => (recent.length > 0 ? c / recent.length : 0));
+}
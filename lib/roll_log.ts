@@ -0,0 +1,162 @@
+export type RollLogFormat = "auto" | "sequence" | "counts" | "json";
+
+export const ROLL_LOG_FORMAT_LABELS: Record<RollLogFormat, string> = {
+  auto: "Detect automatically",
+  sequence: "CSV: one outcome per row",
+  counts: "CSV: face,count per row",
+  json: "JSON array of outcomes",
+};
+
+export type RollLog = {
+  counts: number[];
+  sequence: number[] | null; // Face indices in roll order, when the log has them
+};
+
+// Map an outcome token to a face index: face label first, then face number 1..d
+function faceIndexOf(token: string, labels: string[]): number {
+  const t = token.trim().replace(/^"(.*)"$/, "$1");
+
+  const byLabel = labels.indexOf(t);
+  if (byLabel >= 0) return byLabel;
+
+  const num = Number(t);
+  if (Number.isInteger(num) && num >= 1 && num <= labels.length) return num - 1;
+
+  throw new Error(`Unknown outcome "${t}".`);
+}
+
+// Split CSV text into trimmed, non-empty rows of cells
+function csvRows(text: string): string[][] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "" && !line.startsWith("#"))
+    .map((line) => line.split(/[,;\t]/).map((cell) => cell.trim()));
+}
+
+// Drop a header row if its first cell is not an outcome
+function withoutHeader(rows: string[][], labels: string[]): string[][] {
+  if (rows.length === 0) return rows;
+  try {
+    faceIndexOf(rows[0][0], labels);
+    return rows;
+  } catch {
+    return rows.slice(1);
+  }
+}
+
+// Count face indices
+function countSequence(sequence: number[], faceCount: number): number[] {
+  const counts = Array(faceCount).fill(0) as number[];
+  for (const idx of sequence) counts[idx]++;
+  return counts;
+}
+
+function parseSequenceCsv(text: string, labels: string[]): RollLog {
+  const rows = csvRows(text);
+
+  // A single line holds the whole sequence; otherwise the first column does
+  const cells = rows.length === 1 ? rows[0] : withoutHeader(rows, labels).map((row) => row[0]);
+  const sequence = cells.map((cell) => faceIndexOf(cell, labels));
+  return { counts: countSequence(sequence, labels.length), sequence };
+}
+
+function parseCountsCsv(text: string, labels: string[]): RollLog {
+  const rows = withoutHeader(csvRows(text), labels);
+  const counts = Array(labels.length).fill(0) as number[];
+
+  for (const row of rows) {
+    if (row.length < 2) throw new Error("Each row must contain a face and a count.");
+    const c = Number(row[1]);
+    if (!Number.isInteger(c) || c < 0) throw new Error(`Invalid count "${row[1]}".`);
+    counts[faceIndexOf(row[0], labels)] += c;
+  }
+
+  return { counts, sequence: null };
+}
+
+function parseJson(text: string, labels: string[]): RollLog {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid JSON.");
+  }
+
+  // { "counts": [...] } holds per-face counts
+  if (data && typeof data === "object" && !Array.isArray(data) && "counts" in data) {
+    const counts = (data as { counts: unknown }).counts;
+    if (
+      !Array.isArray(counts) ||
+      counts.length !== labels.length ||
+      !counts.every((c) => Number.isInteger(c) && c >= 0)
+    ) {
+      throw new Error(`"counts" must be ${labels.length} non-negative integers.`);
+    }
+    return { counts: counts as number[], sequence: null };
+  }
+
+  if (!Array.isArray(data)) throw new Error("JSON must be an array of outcomes.");
+
+  const sequence = data.map((x) => {
+    if (typeof x !== "number" && typeof x !== "string") {
+      throw new Error("JSON outcomes must be numbers or strings.");
+    }
+    return faceIndexOf(String(x), labels);
+  });
+
+  return { counts: countSequence(sequence, labels.length), sequence };
+}
+
+// Guess the format of a roll log from its content
+function detectFormat(text: string): Exclude<RollLogFormat, "auto"> {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "json";
+
+  const rows = csvRows(trimmed);
+  const twoColumns = rows.length > 1 && rows.every((row) => row.length === 2);
+  return twoColumns ? "counts" : "sequence";
+}
+
+// Parse a recorded roll log (CSV sequence, CSV counts or JSON) against the given face labels
+export function parseRollLog(
+  text: string,
+  labels: string[],
+  format: RollLogFormat = "auto"
+): RollLog {
+  if (labels.length === 0) throw new Error("labels must be a non-empty array.");
+
+  const resolved = format === "auto" ? detectFormat(text) : format;
+  let log: RollLog;
+  if (resolved === "json") log = parseJson(text, labels);
+  else if (resolved === "counts") log = parseCountsCsv(text, labels);
+  else log = parseSequenceCsv(text, labels);
+
+  if (log.counts.reduce((acc, c) => acc + c, 0) <= 0) {
+    throw new Error("The log contains no rolls.");
+  }
+
+  return log;
+}
+
+// Running mean of the outcome values along a roll sequence, sampled every sampleStep rolls
+export function runningMeanOf(
+  sequence: number[],
+  values: number[],
+  sampleStep = 10
+): number[] {
+  if (!Number.isFinite(sampleStep) || sampleStep <= 0) throw new Error("sampleStep must be >= 1.");
+  sampleStep = Math.floor(sampleStep);
+
+  const runningMean: number[] = [];
+  let sumValues = 0;
+
+  sequence.forEach((idx, i) => {
+    sumValues += values[idx];
+    if ((i + 1) % sampleStep === 0 || i === sequence.length - 1) {
+      runningMean.push(sumValues / (i + 1));
+    }
+  });
+
+  return runningMean;
+}
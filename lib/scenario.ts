@@ -0,0 +1,277 @@
+import { SAMPLER_LABELS, type SamplerKind } from "@/lib/die";
+import { DIE_TYPES, faceCountOf, type DieDims, type DieType } from "@/lib/geometry";
+import { AXES, INCLUSION_SHAPES } from "@/lib/inclusions";
+import type { RollLog } from "@/lib/roll_log";
+import type { Axis, BubbleConfig, Inclusion, InclusionShape, Vec3 } from "@/types/bubble";
+import type { FaceSpec } from "@/types/face";
+import {
+  SCENARIO_VERSION,
+  type Scenario,
+  type ScenarioMode,
+  type ScenarioResults,
+} from "@/types/scenario";
+
+// Query parameter that carries the encoded scenario
+export const SCENARIO_QUERY_KEY = "scenario";
+
+const MODES: readonly ScenarioMode[] = ["weights", "dimensions", "target"];
+
+// Most running-mean points a link carries; longer series are thinned to a wider step
+const LINK_MEAN_POINTS = 200;
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function objectAt(data: Json, key: string, path: string): Json {
+  const value = data[key];
+  if (!isObject(value)) throw new Error(`${path}${key} must be an object.`);
+  return value;
+}
+
+function numberAt(data: Json, key: string, path: string, min = -Infinity): number {
+  const value = data[key];
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min) {
+    throw new Error(`${path}${key} must be a finite number${min > -Infinity ? ` >= ${min}` : ""}.`);
+  }
+  return value;
+}
+
+function stringAt(data: Json, key: string, path: string): string {
+  const value = data[key];
+  if (typeof value !== "string") throw new Error(`${path}${key} must be a string.`);
+  return value;
+}
+
+function choiceAt<T extends string>(data: Json, key: string, path: string, choices: readonly T[]): T {
+  const value = data[key];
+  if (!choices.includes(value as T)) {
+    throw new Error(`${path}${key} must be one of ${choices.join(", ")}.`);
+  }
+  return value as T;
+}
+
+function numbersAt(data: Json, key: string, path: string, length: number | null, min = -Infinity): number[] {
+  const value = data[key];
+  if (
+    !Array.isArray(value) ||
+    (length !== null && value.length !== length) ||
+    !value.every((v) => typeof v === "number" && Number.isFinite(v) && v >= min)
+  ) {
+    const size = length === null ? "" : `${length} `;
+    const bound = min > -Infinity ? ` >= ${min}` : "";
+    throw new Error(`${path}${key} must be an array of ${size}finite numbers${bound}.`);
+  }
+  return value as number[];
+}
+
+// Roll counts: whole numbers with at least one roll
+function countsAt(data: Json, key: string, path: string, length: number): number[] {
+  const counts = numbersAt(data, key, path, length, 0);
+  if (!counts.every(Number.isInteger)) throw new Error(`${path}${key} must hold whole numbers.`);
+  if (counts.every((c) => c === 0)) throw new Error(`${path}${key} must have a positive total.`);
+  return counts;
+}
+
+function vec3At(data: Json, key: string, path: string): Vec3 {
+  const v = objectAt(data, key, path);
+  const p = `${path}${key}.`;
+  return { x: numberAt(v, "x", p), y: numberAt(v, "y", p), z: numberAt(v, "z", p) };
+}
+
+function facesAt(data: Json, key: string, path: string, length: number): FaceSpec[] {
+  const value = data[key];
+  if (!Array.isArray(value) || value.length !== length) {
+    throw new Error(`${path}${key} must be an array of ${length} faces.`);
+  }
+  return value.map((face, i) => {
+    const p = `${path}${key}[${i}].`;
+    if (!isObject(face)) throw new Error(`${path}${key}[${i}] must be an object.`);
+    return { value: numberAt(face, "value", p), label: stringAt(face, "label", p) };
+  });
+}
+
+function dimsAt(data: Json, key: string, path: string): DieDims {
+  const d = objectAt(data, key, path);
+  const p = `${path}${key}.`;
+  return { lx: numberAt(d, "lx", p, 0.01), ly: numberAt(d, "ly", p, 0.01), lz: numberAt(d, "lz", p, 0.01) };
+}
+
+function bubbleAt(data: Json, key: string, path: string): BubbleConfig {
+  const b = objectAt(data, key, path);
+  const p = `${path}${key}.`;
+  if (typeof b.enabled !== "boolean") throw new Error(`${p}enabled must be true or false.`);
+  return { enabled: b.enabled, offset: vec3At(b, "offset", p), radius: numberAt(b, "radius", p, 0) };
+}
+
+function inclusionsAt(data: Json, key: string, path: string): Inclusion[] {
+  const value = data[key];
+  if (!Array.isArray(value)) throw new Error(`${path}${key} must be an array.`);
+  return value.map((inc, i) => {
+    const p = `${path}${key}[${i}].`;
+    if (!isObject(inc)) throw new Error(`${path}${key}[${i}] must be an object.`);
+    const halfExtents = vec3At(inc, "halfExtents", p);
+    if (!AXES.every((axis) => halfExtents[axis] >= 0)) throw new Error(`${p}halfExtents must be >= 0.`);
+    return {
+      shape: choiceAt<InclusionShape>(inc, "shape", p, INCLUSION_SHAPES),
+      offset: vec3At(inc, "offset", p),
+      radius: numberAt(inc, "radius", p, 0),
+      halfExtents,
+      height: numberAt(inc, "height", p, 0),
+      axis: choiceAt<Axis>(inc, "axis", p, AXES),
+      density: numberAt(inc, "density", p, 0),
+    };
+  });
+}
+
+function resultsAt(data: Json, key: string, faceCount: number): ScenarioResults {
+  const r = objectAt(data, key, "");
+  const p = `${key}.`;
+  const source = choiceAt(r, "source", p, ["simulation", "import"] as const);
+
+  if (source === "import") {
+    const log = objectAt(r, "log", p);
+    const counts = countsAt(log, "counts", `${p}log.`, faceCount);
+    const sequence =
+      log.sequence === null || log.sequence === undefined
+        ? null
+        : numbersAt(log, "sequence", `${p}log.`, null, 0);
+    if (sequence && !sequence.every((f) => Number.isInteger(f) && f < faceCount)) {
+      throw new Error(`${p}log.sequence must hold face indices 0..${faceCount - 1}.`);
+    }
+    const rollLog: RollLog = { counts, sequence };
+    return { source, name: stringAt(r, "name", p), log: rollLog };
+  }
+
+  const sampleStep = numberAt(r, "sampleStep", p, 1);
+  if (!Number.isInteger(sampleStep)) throw new Error(`${p}sampleStep must be an integer.`);
+
+  return {
+    source,
+    weights: numbersAt(r, "weights", p, faceCount, 0),
+    faces: facesAt(r, "faces", p, faceCount),
+    sampler: choiceAt(r, "sampler", p, Object.keys(SAMPLER_LABELS) as SamplerKind[]),
+    seed: stringAt(r, "seed", p),
+    counts: countsAt(r, "counts", p, faceCount),
+    probs: numbersAt(r, "probs", p, faceCount, 0),
+    runningMean: numbersAt(r, "runningMean", p, null),
+    sampleStep,
+  };
+}
+
+// Bring a scenario of an older version up to the current one, step by step
+function migrateScenario(data: Json): Json {
+  if (data.version === 1) {
+    // Version 1 inclusions had one size: a cube's half-edge, or a Y-axis cylinder as tall as it is wide
+    const inclusions = Array.isArray(data.inclusions)
+      ? data.inclusions.map((inc) => {
+          if (!isObject(inc) || typeof inc.radius !== "number") return inc;
+          const r = inc.radius;
+          return { ...inc, halfExtents: { x: r, y: r, z: r }, height: 2 * r, axis: "y" };
+        })
+      : data.inclusions;
+    data = { ...data, version: 2, inclusions };
+  }
+  return data;
+}
+
+// Validate untrusted data (a parsed file or URL) as a scenario, migrating older versions
+export function parseScenario(input: unknown): Scenario {
+  if (!isObject(input)) throw new Error("A scenario must be a JSON object.");
+  const data = migrateScenario(input);
+  if (data.version !== SCENARIO_VERSION) {
+    throw new Error(`Unsupported scenario version ${JSON.stringify(input.version)} (expected 1 to ${SCENARIO_VERSION}).`);
+  }
+
+  const dieType = choiceAt<DieType>(data, "dieType", "", DIE_TYPES);
+  const faceCount = faceCountOf(dieType);
+  const mode = choiceAt(data, "mode", "", MODES);
+  if (mode === "target" && dieType !== "d6") throw new Error("Target mode is only available for the d6.");
+
+  const nRolls = numberAt(data, "nRolls", "", 1);
+  if (!Number.isInteger(nRolls)) throw new Error("nRolls must be an integer.");
+
+  let bubbleK: number | null = null;
+  if (data.bubbleK !== null && data.bubbleK !== undefined) bubbleK = numberAt(data, "bubbleK", "", 0);
+
+  const scenario: Scenario = {
+    version: SCENARIO_VERSION,
+    mode,
+    dieType,
+    weights: numbersAt(data, "weights", "", faceCount, 0),
+    dimensions: dimsAt(data, "dimensions", ""),
+    target: numbersAt(data, "target", "", 6, 0),
+    faces: facesAt(data, "faces", "", faceCount),
+    bubble: bubbleAt(data, "bubble", ""),
+    inclusions: inclusionsAt(data, "inclusions", ""),
+    exponent: numberAt(data, "exponent", ""),
+    bubbleK,
+    nRolls,
+    sampler: choiceAt(data, "sampler", "", Object.keys(SAMPLER_LABELS) as SamplerKind[]),
+  };
+
+  if (data.seed !== undefined) scenario.seed = stringAt(data, "seed", "");
+  if (data.results !== undefined) scenario.results = resultsAt(data, "results", faceCount);
+  return scenario;
+}
+
+// Parse the text of a scenario file
+export function parseScenarioJson(text: string): Scenario {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid JSON.");
+  }
+  return parseScenario(data);
+}
+
+// Encode a scenario as URL-safe base64 of its UTF-8 JSON
+export function encodeScenario(scenario: Scenario): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(scenario));
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// Decode and validate a scenario produced by encodeScenario
+export function decodeScenario(encoded: string): Scenario {
+  let text: string;
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+    text = new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+  } catch {
+    throw new Error("The scenario in the link is not valid base64.");
+  }
+  return parseScenarioJson(text);
+}
+
+// Read the scenario from a query string; null if it carries none
+export function scenarioFromQuery(search: string): Scenario | null {
+  const encoded = new URLSearchParams(search).get(SCENARIO_QUERY_KEY);
+  return encoded ? decodeScenario(encoded) : null;
+}
+
+// Keep every stride-th running-mean point, so a link stays short however long the run was
+function thinForLink(scenario: Scenario): Scenario {
+  const results = scenario.results;
+  if (results?.source !== "simulation" || results.runningMean.length <= LINK_MEAN_POINTS) return scenario;
+
+  const total = results.counts.reduce((acc, c) => acc + c, 0);
+  const stride = Math.ceil(results.runningMean.length / LINK_MEAN_POINTS);
+  const sampleStep = results.sampleStep * stride;
+  const runningMean = results.runningMean
+    .filter((_, j) => (j + 1) % stride === 0)
+    .slice(0, Math.floor(total / sampleStep));
+  // The last point is the mean over the whole sample, even between steps
+  if (total % sampleStep !== 0) runningMean.push(results.runningMean[results.runningMean.length - 1]);
+
+  return { ...scenario, results: { ...results, runningMean, sampleStep } };
+}
+
+// Query string ("?scenario=...") for a scenario, with its running mean thinned
+export function scenarioToQuery(scenario: Scenario): string {
+  return `?${new URLSearchParams({ [SCENARIO_QUERY_KEY]: encodeScenario(thinForLink(scenario)) })}`;
+}
@@ -0,0 +1,99 @@
+import { createRollAccumulator } from "@/lib/die";
+import { designForTarget } from "@/lib/inverse_design";
+import { simulatePool } from "@/lib/pool";
+import { createRandom } from "@/lib/random";
+import { sweepBubble } from "@/lib/sweep";
+import { simulateTosses } from "@/lib/toss";
+import type { SimulationRequest, SimulationResponse } from "@/types/simulation";
+
+// Rolls between two progress messages
+const BATCH_SIZE = 250_000;
+
+// Tosses between two progress messages (each toss is a full rigid-body run)
+const TOSS_BATCH_SIZE = 100;
+
+const post = (message: SimulationResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const request = event.data;
+
+  try {
+    if (!Number.isFinite(request.n) || request.n <= 0) throw new Error("n must be a positive integer.");
+    const total = Math.floor(request.n);
+
+    if (request.type === "toss") {
+      const result = simulateTosses(
+        request.config,
+        total,
+        createRandom(request.seed),
+        (done, counts) => post({ type: "progress", rolled: done, n: total, counts: [...counts] }),
+        TOSS_BATCH_SIZE
+      );
+      post({ type: "tossDone", result });
+      return;
+    }
+
+    if (request.type === "pool") {
+      const result = simulatePool(
+        request.dice,
+        total,
+        request.sampleStep,
+        createRandom(request.seed),
+        request.sampler,
+        (done, counts) => post({ type: "progress", rolled: done, n: total, counts: [...counts] }),
+        BATCH_SIZE
+      );
+      post({ type: "poolDone", result });
+      return;
+    }
+
+    if (request.type === "design") {
+      const result = designForTarget(request.target, {
+        ...request.options,
+        restarts: total,
+        rng: createRandom(request.seed),
+        onRestart: (done) => post({ type: "progress", rolled: done, n: total, counts: [] }),
+      });
+      post({ type: "designDone", result });
+      return;
+    }
+
+    if (request.type === "sweep") {
+      const result = sweepBubble(request.parameter, {
+        ...request.options,
+        steps: total,
+        monteCarlo:
+          request.bandRolls === null ? undefined : { n: request.bandRolls, rng: createRandom(request.seed) },
+        onStep: (done) => post({ type: "progress", rolled: done, n: total, counts: [] }),
+      });
+      post({ type: "sweepDone", result });
+      return;
+    }
+
+    const acc = createRollAccumulator(
+      request.weights,
+      request.sampleStep,
+      createRandom(request.seed),
+      request.sampler,
+      request.values,
+      request.previous
+    );
+
+    // Roll in batches, streaming this run's partial counts back to the page
+    const start = acc.rolled;
+    const startCounts = [...acc.counts];
+    while (acc.rolled - start < total) {
+      acc.roll(Math.min(BATCH_SIZE, total - (acc.rolled - start)));
+      post({
+        type: "progress",
+        rolled: acc.rolled - start,
+        n: total,
+        counts: acc.counts.map((c, i) => c - startCounts[i]),
+      });
+    }
+
+    post({ type: "done", result: acc.result() });
+  } catch (e) {
+    post({ type: "error", message: e instanceof Error ? e.message : String(e) });
+  }
+};
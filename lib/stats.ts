@@ -0,0 +1,387 @@
+// Lanczos approximation coefficients (g = 7, n = 9)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+const EPS = 1e-14;
+const MAX_ITER = 500;
+
+// Natural log of the gamma function for x > 0
+export function lnGamma(x: number): number {
+  if (!Number.isFinite(x) || x <= 0) throw new Error("lnGamma requires x > 0.");
+
+  // Reflection formula for small x keeps the approximation accurate
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+  }
+
+  x -= 1;
+  let a = LANCZOS[0];
+  const t = x + 7.5;
+  for (let i = 1; i < LANCZOS.length; i++) {
+    a += LANCZOS[i] / (x + i);
+  }
+
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+// Regularized lower incomplete gamma P(a, x) by series expansion (x < a + 1)
+function gammaPSeries(a: number, x: number): number {
+  let sum = 1 / a;
+  let term = sum;
+  for (let n = 1; n < MAX_ITER; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPS) break;
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - lnGamma(a));
+}
+
+// Regularized upper incomplete gamma Q(a, x) by continued fraction (x >= a + 1)
+function gammaQContinuedFraction(a: number, x: number): number {
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+
+  for (let i = 1; i < MAX_ITER; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPS) break;
+  }
+
+  return Math.exp(-x + a * Math.log(x) - lnGamma(a)) * h;
+}
+
+// Regularized lower incomplete gamma function P(a, x)
+export function regularizedGammaP(a: number, x: number): number {
+  if (!Number.isFinite(a) || a <= 0) throw new Error("a must be > 0.");
+  if (Number.isNaN(x)) throw new Error("x must be a number.");
+  if (x <= 0) return 0;
+  if (x === Infinity) return 1;
+
+  return x < a + 1 ? gammaPSeries(a, x) : 1 - gammaQContinuedFraction(a, x);
+}
+
+// Regularized upper incomplete gamma function Q(a, x) = 1 - P(a, x)
+export function regularizedGammaQ(a: number, x: number): number {
+  if (!Number.isFinite(a) || a <= 0) throw new Error("a must be > 0.");
+  if (Number.isNaN(x)) throw new Error("x must be a number.");
+  if (x <= 0) return 1;
+  if (x === Infinity) return 0;
+
+  return x < a + 1 ? 1 - gammaPSeries(a, x) : gammaQContinuedFraction(a, x);
+}
+
+// CDF of the chi-squared distribution with df degrees of freedom
+export function chiSquaredCdf(x: number, df: number): number {
+  if (!Number.isFinite(df) || df <= 0) throw new Error("df must be > 0.");
+  return regularizedGammaP(df / 2, x / 2);
+}
+
+// Survival function (upper tail) of the chi-squared distribution
+export function chiSquaredSf(x: number, df: number): number {
+  if (!Number.isFinite(df) || df <= 0) throw new Error("df must be > 0.");
+  return regularizedGammaQ(df / 2, x / 2);
+}
+
+export type ChiSquaredResult = {
+  statistic: number;
+  df: number;
+  pValue: number;
+  expected: number[];
+  total: number;
+};
+
+// Pearson chi-squared goodness-of-fit test of counts against probabilities
+export function chiSquaredTest(counts: number[], probs: number[]): ChiSquaredResult {
+  if (!Array.isArray(counts) || counts.length === 0) {
+    throw new Error("counts must be a non-empty array.");
+  }
+  if (!Array.isArray(probs) || probs.length !== counts.length) {
+    throw new Error("probs must have the same length as counts.");
+  }
+
+  for (const c of counts) {
+    if (!Number.isFinite(c)) throw new Error("counts must contain finite numbers.");
+    if (c < 0) throw new Error("counts must be >= 0.");
+  }
+
+  let probSum = 0;
+  for (const p of probs) {
+    if (!Number.isFinite(p)) throw new Error("Probabilities must be finite numbers.");
+    if (p < 0) throw new Error("Probabilities must be >= 0.");
+    probSum += p;
+  }
+  if (probSum <= 0) throw new Error("Sum of probabilities must be > 0.");
+
+  const total = counts.reduce((acc, c) => acc + c, 0);
+  if (total <= 0) throw new Error("counts must contain at least one observation.");
+
+  const expected = probs.map((p) => (total * p) / probSum);
+
+  // Faces with zero probability carry no degree of freedom
+  let statistic = 0;
+  let cells = 0;
+  for (let i = 0; i < counts.length; i++) {
+    if (expected[i] > 0) {
+      const diff = counts[i] - expected[i];
+      statistic += (diff * diff) / expected[i];
+      cells++;
+    } else if (counts[i] > 0) {
+      statistic = Infinity;
+    }
+  }
+
+  const df = Math.max(cells - 1, 0);
+  let pValue: number;
+  if (statistic === Infinity) pValue = 0;
+  else if (df === 0) pValue = 1;
+  else pValue = chiSquaredSf(statistic, df);
+
+  return { statistic, df, pValue, expected, total };
+}
+
+// Inverse of the standard normal CDF (Acklam's rational approximation, refined once)
+export function normalQuantile(p: number): number {
+  if (!(p > 0 && p < 1)) {
+    if (p === 0) return -Infinity;
+    if (p === 1) return Infinity;
+    throw new Error("p must be in [0, 1].");
+  }
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+  const pLow = 0.02425;
+  let x: number;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  } else if (p <= 1 - pLow) {
+    const q = p - 0.5;
+    const r = q * q;
+    x = ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  } else {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    x = -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  // One Halley step against the exact CDF
+  const e = normalCdf(x) - p;
+  const u = e * Math.sqrt(2 * Math.PI) * Math.exp((x * x) / 2);
+  return x - u / (1 + (x * u) / 2);
+}
+
+// Standard normal CDF via the regularized gamma function
+export function normalCdf(x: number): number {
+  if (Number.isNaN(x)) throw new Error("x must be a number.");
+  const half = 0.5 * regularizedGammaP(0.5, (x * x) / 2);
+  return x >= 0 ? 0.5 + half : 0.5 - half;
+}
+
+// Continued fraction for the regularized incomplete beta function
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-300;
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - (qab * x) / qap;
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  // Convergence takes O(sqrt(max(a, b))) steps
+  const maxIter = Math.max(MAX_ITER, Math.ceil(10 * Math.sqrt(Math.max(a, b))));
+
+  for (let m = 1; m <= maxIter; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPS) break;
+  }
+
+  return h;
+}
+
+// Regularized incomplete beta function I_x(a, b)
+export function regularizedBeta(x: number, a: number, b: number): number {
+  if (!Number.isFinite(a) || a <= 0) throw new Error("a must be > 0.");
+  if (!Number.isFinite(b) || b <= 0) throw new Error("b must be > 0.");
+  if (Number.isNaN(x)) throw new Error("x must be a number.");
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const lnFront =
+    lnGamma(a + b) - lnGamma(a) - lnGamma(b) + a * Math.log(x) + b * Math.log(1 - x);
+  const front = Math.exp(lnFront);
+
+  // Use the symmetry relation where the continued fraction converges fastest
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(a, b, x)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+// Quantile of the Beta(a, b) distribution by bisection
+export function betaQuantile(p: number, a: number, b: number): number {
+  if (!(p >= 0 && p <= 1)) throw new Error("p must be in [0, 1].");
+  if (p === 0) return 0;
+  if (p === 1) return 1;
+
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 100 && hi - lo > 1e-15; i++) {
+    const mid = (lo + hi) / 2;
+    if (regularizedBeta(mid, a, b) < p) lo = mid;
+    else hi = mid;
+  }
+
+  return (lo + hi) / 2;
+}
+
+export type Interval = { lower: number; upper: number };
+
+export type IntervalMethod = "wilson" | "clopper-pearson" | "goodman";
+
+export const INTERVAL_LABELS: Record<IntervalMethod, string> = {
+  wilson: "Wilson score",
+  "clopper-pearson": "Clopper–Pearson (exact)",
+  goodman: "Goodman (simultaneous)",
+};
+
+// Validate a count x out of n and a significance level
+function checkBinomial(x: number, n: number, alpha: number) {
+  if (!Number.isFinite(n) || n <= 0) throw new Error("n must be > 0.");
+  if (!Number.isFinite(x) || x < 0 || x > n) throw new Error("x must be in [0, n].");
+  if (!Number.isFinite(alpha) || alpha <= 0 || alpha >= 1) {
+    throw new Error("alpha must be in (0, 1).");
+  }
+}
+
+// Wilson score interval for a binomial proportion x / n
+export function wilsonInterval(x: number, n: number, alpha = 0.05): Interval {
+  checkBinomial(x, n, alpha);
+
+  const z = normalQuantile(1 - alpha / 2);
+  const z2 = z * z;
+  const pHat = x / n;
+  const denom = 1 + z2 / n;
+  const centre = (pHat + z2 / (2 * n)) / denom;
+  const half = (z * Math.sqrt((pHat * (1 - pHat)) / n + z2 / (4 * n * n))) / denom;
+
+  return { lower: Math.max(0, centre - half), upper: Math.min(1, centre + half) };
+}
+
+// Clopper–Pearson (exact) interval for a binomial proportion x / n
+export function clopperPearsonInterval(x: number, n: number, alpha = 0.05): Interval {
+  checkBinomial(x, n, alpha);
+
+  const lower = x === 0 ? 0 : betaQuantile(alpha / 2, x, n - x + 1);
+  const upper = x === n ? 1 : betaQuantile(1 - alpha / 2, x + 1, n - x);
+
+  return { lower, upper };
+}
+
+// Goodman simultaneous intervals for all multinomial cell probabilities
+export function goodmanIntervals(counts: number[], alpha = 0.05): Interval[] {
+  const k = counts.length;
+  const n = counts.reduce((acc, c) => acc + c, 0);
+  if (k === 0) throw new Error("counts must be a non-empty array.");
+  for (const c of counts) checkBinomial(c, n, alpha);
+
+  // Chi-squared(1) quantile at 1 - alpha / k, via the normal quantile
+  const z = normalQuantile(1 - alpha / (2 * k));
+  const A = z * z;
+
+  return counts.map((c) => {
+    const centre = A + 2 * c;
+    const half = Math.sqrt(A * (A + (4 * c * (n - c)) / n));
+    const denom = 2 * (n + A);
+    return {
+      lower: Math.max(0, (centre - half) / denom),
+      upper: Math.min(1, (centre + half) / denom),
+    };
+  });
+}
+
+// Confidence intervals for every face probability using the chosen method
+export function confidenceIntervals(
+  counts: number[],
+  alpha = 0.05,
+  method: IntervalMethod = "wilson"
+): Interval[] {
+  if (method === "goodman") return goodmanIntervals(counts, alpha);
+
+  const n = counts.reduce((acc, c) => acc + c, 0);
+  const single = method === "wilson" ? wilsonInterval : clopperPearsonInterval;
+  return counts.map((c) => single(c, n, alpha));
+}
+
+export type DistanceKind = "kl" | "l2";
+
+export const DISTANCE_LABELS: Record<DistanceKind, string> = {
+  kl: "Kullback–Leibler divergence",
+  l2: "Euclidean (L2) distance",
+};
+
+// Check two distributions over the same faces
+function checkSameLength(p: number[], q: number[]) {
+  if (p.length === 0 || p.length !== q.length) {
+    throw new Error("Distributions must be non-empty and of equal length.");
+  }
+}
+
+// KL(p || q) in nats; faces with p = 0 contribute nothing, q = 0 where p > 0 gives Infinity
+export function klDivergence(p: number[], q: number[]): number {
+  checkSameLength(p, q);
+  let d = 0;
+  for (let i = 0; i < p.length; i++) {
+    if (p[i] <= 0) continue;
+    if (q[i] <= 0) return Infinity;
+    d += p[i] * Math.log(p[i] / q[i]);
+  }
+  return Math.max(d, 0);
+}
+
+// Euclidean distance between two distributions
+export function l2Distance(p: number[], q: number[]): number {
+  checkSameLength(p, q);
+  return Math.sqrt(p.reduce((acc, pi, i) => acc + (pi - q[i]) ** 2, 0));
+}
+
+// Distance of the chosen kind from target p to model q
+export function distributionDistance(p: number[], q: number[], kind: DistanceKind): number {
+  return kind === "kl" ? klDivergence(p, q) : l2Distance(p, q);
+}
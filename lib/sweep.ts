@@ -0,0 +1,133 @@
+import type { BubbleConfig } from "@/types/bubble";
+import {
+  applyBubblePhysics,
+  clampBubbleToDie,
+  normalizeWeights,
+  simulateRolls,
+  weightsFromDimensions,
+} from "@/lib/die";
+import { getDieGeometry, type DieDims, type DieType } from "@/lib/geometry";
+import type { RandomSource } from "@/lib/random";
+import { confidenceIntervals, type Interval } from "@/lib/stats";
+
+export type SweepParameter = "offsetX" | "radius" | "lz";
+
+export const SWEEP_PARAMETER_LABELS: Record<SweepParameter, string> = {
+  offsetX: "Bubble x-offset",
+  radius: "Bubble radius",
+  lz: "Die depth lz",
+};
+
+export type SweepPoint = {
+  value: number;
+  probs: number[];
+  clamped: boolean;         // The die limits changed the requested bubble
+  bands: Interval[] | null; // Monte Carlo confidence band per face, when requested
+};
+
+export type SweepOptions = {
+  dieType?: DieType;
+  dims: DieDims;
+  bubble: BubbleConfig;       // Parameters that are not swept are taken from here
+  baseWeights?: number[];     // Weights before the bubble for fixed dimensions (fair by default)
+  exponent?: number;          // Area exponent when lz is swept
+  k?: number;
+  from: number;
+  to: number;
+  steps?: number;
+  monteCarlo?: { n: number; rng: RandomSource; alpha?: number };
+  onStep?: (done: number, total: number) => void; // Called after each step of the sweep
+};
+
+// Tolerance for deciding that clamping moved the bubble
+const CLAMP_EPSILON = 1e-9;
+
+// Default range of a parameter: -h..h for the offset, 0..inradius for the radius, 0.5..2 for lz
+export function sweepRange(
+  parameter: SweepParameter,
+  dims: DieDims,
+  dieType: DieType = "d6"
+): [number, number] {
+  const geometry = getDieGeometry(dieType, dims);
+  if (parameter === "offsetX") {
+    const h = Math.max(...geometry.vertices.map((p) => Math.abs(p.x)));
+    return [-h, h];
+  }
+  if (parameter === "radius") return [0, geometry.inradius];
+  return [0.5, 2];
+}
+
+// Face probabilities as one bubble parameter (or lz) runs over a range
+export function sweepBubble(
+  parameter: SweepParameter,
+  {
+    dieType = "d6",
+    dims,
+    bubble,
+    baseWeights,
+    exponent = 1,
+    k,
+    from,
+    to,
+    steps = 41,
+    monteCarlo,
+    onStep,
+  }: SweepOptions
+): SweepPoint[] {
+  if (parameter === "lz" && dieType !== "d6") throw new Error("lz can only be swept on the d6.");
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from >= to) {
+    throw new Error("The range must satisfy from < to.");
+  }
+  if (!Number.isInteger(steps) || steps < 2) throw new Error("steps must be an integer >= 2.");
+  if (parameter === "lz" && from <= 0) throw new Error("lz must stay > 0.");
+  if (parameter === "radius" && from < 0) throw new Error("The radius must stay >= 0.");
+
+  const faceCount = getDieGeometry(dieType, dims).faceCount;
+  const fixedBase = baseWeights ?? Array(faceCount).fill(1);
+  if (fixedBase.length !== faceCount) throw new Error(`baseWeights must have ${faceCount} entries.`);
+  if (monteCarlo && (!Number.isFinite(monteCarlo.n) || monteCarlo.n < 1)) {
+    throw new Error("Monte Carlo rolls must be >= 1.");
+  }
+
+  return Array.from({ length: steps }, (_, i) => {
+    const value = from + ((to - from) * i) / (steps - 1);
+
+    const d = parameter === "lz" ? { ...dims, lz: value } : dims;
+    const requested: BubbleConfig = {
+      ...bubble,
+      enabled: true,
+      offset: parameter === "offsetX" ? { ...bubble.offset, x: value } : bubble.offset,
+      radius: parameter === "radius" ? value : bubble.radius,
+    };
+    const effective = clampBubbleToDie(requested, d, dieType);
+    const clamped =
+      Math.abs(effective.radius - requested.radius) > CLAMP_EPSILON ||
+      (["x", "y", "z"] as const).some(
+        (a) => Math.abs(effective.offset[a] - requested.offset[a]) > CLAMP_EPSILON
+      );
+
+    const base = parameter === "lz" ? weightsFromDimensions(d, exponent, dieType) : fixedBase;
+    const weights = applyBubblePhysics(base, effective, k, d, dieType);
+
+    let bands: Interval[] | null = null;
+    if (monteCarlo) {
+      const n = Math.floor(monteCarlo.n);
+      const { counts } = simulateRolls(weights, n, n, monteCarlo.rng, "alias");
+      bands = confidenceIntervals(counts, monteCarlo.alpha ?? 0.05, "wilson");
+    }
+
+    onStep?.(i + 1, steps);
+    return { value, probs: normalizeWeights(weights), clamped, bands };
+  });
+}
+
+// Contiguous runs of clamped points, as [first, last] parameter values
+export function clampedSegments(points: SweepPoint[]): [number, number][] {
+  const segments: [number, number][] = [];
+  points.forEach((point, i) => {
+    if (!point.clamped) return;
+    if (i > 0 && points[i - 1].clamped) segments[segments.length - 1][1] = point.value;
+    else segments.push([point.value, point.value]);
+  });
+  return segments;
+}
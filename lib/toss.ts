@@ -0,0 +1,257 @@
+import type { Inclusion, Vec3 } from "@/types/bubble";
+import { getDieGeometry, type DieDims } from "@/lib/geometry";
+import { clampInclusionToDie } from "@/lib/inclusions";
+import { massProperties, type Mat3, type MassProperties } from "@/lib/mass_properties";
+import { defaultRandom, sampleNormal, type RandomSource } from "@/lib/random";
+
+export type TossConfig = {
+  dims: DieDims;
+  inclusions: Inclusion[];
+  restitution: number;   // Coefficient of restitution against the table
+  friction: number;      // Coulomb friction coefficient against the table
+  dropHeight: number;    // Initial height of the centre of mass above the table
+  speed: number;         // Std. deviation of each initial horizontal velocity component
+  spin: number;          // Std. deviation of each initial angular velocity component (rad/s)
+};
+
+export const DEFAULT_TOSS_CONFIG: Omit<TossConfig, "dims" | "inclusions"> = {
+  restitution: 0.3,
+  friction: 0.5,
+  dropHeight: 2,
+  speed: 1,
+  spin: 10,
+};
+
+export type TossResult = {
+  counts: number[];
+  sequence: number[]; // Face index that ended up on top, per toss
+  unsettled: number;  // Tosses still moving at the time limit (read off as they were)
+};
+
+type Quat = { w: number; x: number; y: number; z: number };
+
+const GRAVITY = 9.81;
+const DT = 1 / 500;
+const MAX_TIME = 10;
+const SOLVER_ITERATIONS = 4;
+const BOUNCE_THRESHOLD = 0.5; // Slower impacts do not bounce, so the die can come to rest
+const REST_SPEED = 0.1; // Above the contact solver's jitter for a die lying on a face
+const REST_TIME = 0.25;
+
+// Vector helpers
+const v3 = (x: number, y: number, z: number): Vec3 => ({ x, y, z });
+const add = (a: Vec3, b: Vec3): Vec3 => v3(a.x + b.x, a.y + b.y, a.z + b.z);
+const sub = (a: Vec3, b: Vec3): Vec3 => v3(a.x - b.x, a.y - b.y, a.z - b.z);
+const scale = (a: Vec3, s: number): Vec3 => v3(a.x * s, a.y * s, a.z * s);
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: Vec3, b: Vec3): Vec3 =>
+  v3(a.y * b.z - a.z * b.y, a.z * b.x - a.x * b.z, a.x * b.y - a.y * b.x);
+const norm = (a: Vec3) => Math.sqrt(dot(a, a));
+
+// Matrix helpers
+const mulMV = (m: Mat3, a: Vec3): Vec3 =>
+  v3(
+    m[0] * a.x + m[1] * a.y + m[2] * a.z,
+    m[3] * a.x + m[4] * a.y + m[5] * a.z,
+    m[6] * a.x + m[7] * a.y + m[8] * a.z
+  );
+
+function mulMM(a: Mat3, b: Mat3): Mat3 {
+  const out = new Array<number>(9);
+  for (let i = 0; i < 3; i++)
+    for (let j = 0; j < 3; j++)
+      out[i * 3 + j] = a[i * 3] * b[j] + a[i * 3 + 1] * b[3 + j] + a[i * 3 + 2] * b[6 + j];
+  return out;
+}
+
+const transpose = (m: Mat3): Mat3 => [m[0], m[3], m[6], m[1], m[4], m[7], m[2], m[5], m[8]];
+
+function invert(m: Mat3): Mat3 {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-18) throw new Error("Inertia tensor is singular.");
+  return [
+    A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    C / det, -(a * h - b * g) / det, (a * e - b * d) / det,
+  ];
+}
+
+// Rotation matrix of a unit quaternion
+function rotation(q: Quat): Mat3 {
+  const { w, x, y, z } = q;
+  return [
+    1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y),
+    2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x),
+    2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y),
+  ];
+}
+
+// Uniformly distributed random orientation (Shoemake)
+function randomQuat(rng: RandomSource): Quat {
+  const u1 = rng();
+  const u2 = 2 * Math.PI * rng();
+  const u3 = 2 * Math.PI * rng();
+  const a = Math.sqrt(1 - u1);
+  const b = Math.sqrt(u1);
+  return { w: a * Math.sin(u2), x: a * Math.cos(u2), y: b * Math.sin(u3), z: b * Math.cos(u3) };
+}
+
+// Advance orientation by angular velocity w over dt, renormalized
+function integrateQuat(q: Quat, w: Vec3, dt: number): Quat {
+  const h = dt / 2;
+  const next = {
+    w: q.w - h * (w.x * q.x + w.y * q.y + w.z * q.z),
+    x: q.x + h * (w.x * q.w + w.y * q.z - w.z * q.y),
+    y: q.y + h * (w.y * q.w + w.z * q.x - w.x * q.z),
+    z: q.z + h * (w.z * q.w + w.x * q.y - w.y * q.x),
+  };
+  const n = Math.hypot(next.w, next.x, next.y, next.z);
+  return { w: next.w / n, x: next.x / n, y: next.y / n, z: next.z / n };
+}
+
+// Toss one die and return the index of the face that ends up on top
+function tossOnce(
+  config: TossConfig,
+  body: MassProperties,
+  corners: Vec3[],
+  normals: Vec3[],
+  rng: RandomSource
+): { face: number; settled: boolean } {
+  const invMass = 1 / body.mass;
+  const invInertiaBody = invert(body.inertia);
+
+  let x = v3(0, config.dropHeight, 0);
+  let v = v3(sampleNormal(rng) * config.speed, 0, sampleNormal(rng) * config.speed);
+  let q = randomQuat(rng);
+  let w = v3(
+    sampleNormal(rng) * config.spin,
+    sampleNormal(rng) * config.spin,
+    sampleNormal(rng) * config.spin
+  );
+
+  let restTime = 0;
+  let settled = false;
+
+  for (let t = 0; t < MAX_TIME; t += DT) {
+    const R = rotation(q);
+    const invInertia = mulMM(mulMM(R, invInertiaBody), transpose(R));
+
+    v = add(v, v3(0, -GRAVITY * DT, 0));
+
+    // Corner offsets from the COM in world frame
+    const arms = corners.map((c) => mulMV(R, c));
+
+    // Sequential impulses at every corner touching the table
+    for (let iter = 0; iter < SOLVER_ITERATIONS; iter++) {
+      for (const r of arms) {
+        if (x.y + r.y > 0) continue;
+
+        const vel = add(v, cross(w, r));
+        if (vel.y >= 0) continue;
+
+        // Normal impulse along +Y
+        const n = v3(0, 1, 0);
+        const rn = cross(r, n);
+        const kn = invMass + dot(n, cross(mulMV(invInertia, rn), r));
+        const e = iter === 0 && vel.y < -BOUNCE_THRESHOLD ? config.restitution : 0;
+        const jn = (-(1 + e) * vel.y) / kn;
+
+        v = add(v, scale(n, jn * invMass));
+        w = add(w, mulMV(invInertia, scale(rn, jn)));
+
+        // Coulomb friction against the tangential slip
+        const vel2 = add(v, cross(w, r));
+        const slip = v3(vel2.x, 0, vel2.z);
+        const slipSpeed = norm(slip);
+        if (slipSpeed < 1e-9) continue;
+
+        const tDir = scale(slip, -1 / slipSpeed);
+        const rt = cross(r, tDir);
+        const kt = invMass + dot(tDir, cross(mulMV(invInertia, rt), r));
+        const jt = Math.min(slipSpeed / kt, config.friction * jn);
+
+        v = add(v, scale(tDir, jt * invMass));
+        w = add(w, mulMV(invInertia, scale(rt, jt)));
+      }
+    }
+
+    x = add(x, scale(v, DT));
+    q = integrateQuat(q, w, DT);
+
+    // Resolve remaining penetration by lifting the die
+    const R2 = rotation(q);
+    const lowest = Math.min(...corners.map((c) => x.y + mulMV(R2, c).y));
+    if (lowest < 0) x = v3(x.x, x.y - lowest, x.z);
+
+    restTime = norm(v) < REST_SPEED && norm(w) < REST_SPEED ? restTime + DT : 0;
+    if (restTime >= REST_TIME) {
+      settled = true;
+      break;
+    }
+  }
+
+  // Face whose outward normal points most nearly up
+  const R = rotation(q);
+  let face = 0;
+  let best = -Infinity;
+  normals.forEach((n, i) => {
+    const up = mulMV(R, n).y;
+    if (up > best) {
+      best = up;
+      face = i;
+    }
+  });
+
+  return { face, settled };
+}
+
+// Toss a cuboid die with an offset centre of mass n times and record the top face
+export function simulateTosses(
+  config: TossConfig,
+  n: number,
+  rng: RandomSource = defaultRandom,
+  onBatch?: (done: number, counts: readonly number[]) => void,
+  batchSize = 100
+): TossResult {
+  if (!Number.isFinite(n) || n <= 0) throw new Error("n must be a positive integer.");
+  n = Math.floor(n);
+  if (!Number.isFinite(config.restitution) || config.restitution < 0 || config.restitution > 1) {
+    throw new Error("restitution must be in [0, 1].");
+  }
+  if (!Number.isFinite(config.friction) || config.friction < 0) {
+    throw new Error("friction must be >= 0.");
+  }
+  if (!Number.isFinite(config.dropHeight) || config.dropHeight <= 0) {
+    throw new Error("dropHeight must be > 0.");
+  }
+
+  const dims = {
+    lx: Math.max(config.dims.lx, 0.01),
+    ly: Math.max(config.dims.ly, 0.01),
+    lz: Math.max(config.dims.lz, 0.01),
+  };
+  const inclusions = config.inclusions.map((inc) => clampInclusionToDie(inc, dims));
+  const body = massProperties(dims, inclusions);
+
+  const geometry = getDieGeometry("d6", dims);
+  const corners = geometry.vertices.map((p) => sub(p, body.centreOfMass));
+
+  const counts = Array(geometry.faceCount).fill(0) as number[];
+  const sequence: number[] = [];
+  let unsettled = 0;
+
+  for (let i = 0; i < n; i++) {
+    const { face, settled } = tossOnce({ ...config, dims, inclusions }, body, corners, geometry.faceNormals, rng);
+    counts[face]++;
+    sequence.push(face);
+    if (!settled) unsettled++;
+
+    if (onBatch && ((i + 1) % batchSize === 0 || i === n - 1)) onBatch(i + 1, counts);
+  }
+
+  return { counts, sequence, unsettled };
+}
@@ -10,4 +10,30 @@ export const DEFAULT_BUBBLE: BubbleConfig = {
   enabled: false,
   offset: { x: 0, y: 0, z: 0 },
   radius: 0.1,
-};
\ No newline at end of file
+};
+
+export type InclusionShape = "sphere" | "box" | "cylinder";
+
+export type Axis = "x" | "y" | "z";
+
+// A region of the die with its own density (0 = void, 1 = same as the body);
+// every shape keeps all size fields so switching shape does not lose them
+export type Inclusion = {
+  shape: InclusionShape;
+  offset: Vec3;
+  radius: number;     // Sphere and cylinder radius
+  halfExtents: Vec3;  // Box half-edges along x, y and z
+  height: number;     // Cylinder length along its axis
+  axis: Axis;         // Cylinder axis
+  density: number;    // Relative to the body
+};
+
+export const DEFAULT_INCLUSION: Inclusion = {
+  shape: "sphere",
+  offset: { x: 0, y: 0, z: 0 },
+  radius: 0.1,
+  halfExtents: { x: 0.1, y: 0.1, z: 0.1 },
+  height: 0.2,
+  axis: "y",
+  density: 0,
+};
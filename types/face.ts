@@ -0,0 +1,9 @@
+export type FaceSpec = {
+  value: number;
+  label: string;
+};
+
+// Faces numbered 1..count with x_i = i
+export function defaultFaces(count: number): FaceSpec[] {
+  return Array.from({ length: count }, (_, i) => ({ value: i + 1, label: String(i + 1) }));
+}
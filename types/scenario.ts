@@ -0,0 +1,49 @@
+import type { SamplerKind } from "@/lib/die";
+import type { DieDims, DieType } from "@/lib/geometry";
+import type { RollLog } from "@/lib/roll_log";
+import type { BubbleConfig, Inclusion } from "@/types/bubble";
+import type { FaceSpec } from "@/types/face";
+
+// Bump when a field changes meaning; older versions are migrated on load, unknown ones rejected.
+// Version 2 gave inclusions per-axis box sizes and cylinder height and axis
+export const SCENARIO_VERSION = 2;
+
+export type ScenarioMode = "weights" | "dimensions" | "target";
+
+// Stored results: a simulation with the configuration it ran, or an imported roll log
+export type ScenarioResults =
+  | {
+      source: "simulation";
+      weights: number[];
+      faces: FaceSpec[];
+      sampler: SamplerKind;
+      seed: string;
+      counts: number[];
+      probs: number[];
+      runningMean: number[];
+      sampleStep: number;
+    }
+  | {
+      source: "import";
+      name: string;
+      log: RollLog;
+    };
+
+// Everything needed to reproduce the page's configuration
+export type Scenario = {
+  version: typeof SCENARIO_VERSION;
+  mode: ScenarioMode;
+  dieType: DieType;
+  weights: number[];
+  dimensions: DieDims;
+  target: number[];
+  faces: FaceSpec[];
+  bubble: BubbleConfig;
+  inclusions: Inclusion[];
+  exponent: number;
+  bubbleK: number | null;
+  nRolls: number;
+  sampler: SamplerKind;
+  seed?: string;
+  results?: ScenarioResults;
+};
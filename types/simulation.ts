@@ -0,0 +1,64 @@
+import type { SamplerKind, SimulationResult } from "@/lib/die";
+import type { InverseDesignOptions, InverseDesignResult } from "@/lib/inverse_design";
+import type { PoolDie, PoolSimulationResult } from "@/lib/pool";
+import type { SweepOptions, SweepParameter, SweepPoint } from "@/lib/sweep";
+import type { TossConfig, TossResult } from "@/lib/toss";
+
+// Messages sent from the page to the simulation worker
+export type SimulationRequest =
+  | {
+      type: "start";
+      weights: number[];
+      n: number;
+      seed: string;
+      sampler: SamplerKind;
+      sampleStep?: number;
+      values?: number[];
+      previous?: SimulationResult; // Add n rolls to this sample instead of starting over
+    }
+  | {
+      type: "toss";
+      config: TossConfig;
+      n: number;
+      seed: string;
+    }
+  | {
+      type: "pool";
+      dice: PoolDie[];
+      n: number;
+      seed: string;
+      sampler: SamplerKind;
+      sampleStep?: number;
+    }
+  | {
+      type: "design";
+      target: number[];
+      options: Omit<InverseDesignOptions, "rng" | "restarts" | "onRestart">;
+      n: number; // Starts of the multi-start search
+      seed: string;
+    }
+  | {
+      type: "sweep";
+      parameter: SweepParameter;
+      options: Omit<SweepOptions, "steps" | "monteCarlo" | "onStep">;
+      bandRolls: number | null; // Monte Carlo rolls per step, or null for no bands
+      n: number; // Steps of the sweep
+      seed: string;
+    };
+
+// Partial statistics streamed back while the simulation runs
+export type SimulationProgress = {
+  rolled: number;
+  n: number;
+  counts: number[];
+};
+
+// Messages sent from the simulation worker to the page
+export type SimulationResponse =
+  | ({ type: "progress" } & SimulationProgress)
+  | { type: "done"; result: SimulationResult }
+  | { type: "tossDone"; result: TossResult }
+  | { type: "poolDone"; result: PoolSimulationResult }
+  | { type: "designDone"; result: InverseDesignResult }
+  | { type: "sweepDone"; result: SweepPoint[] }
+  | { type: "error"; message: string };